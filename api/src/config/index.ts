@@ -17,6 +17,19 @@ interface Config {
   redis: {
     url: string;
   };
+  storage: {
+    driver: 's3' | 'local';
+    localPath: string;
+    publicUrl: string;
+    signingSecret: string;
+  };
+  encryption: {
+    enabled: boolean;
+    keyProvider: 'config' | 'file';
+    masterKeys: string;
+    activeKeyId: string;
+    keyringPath: string;
+  };
   s3: {
     endpoint: string;
     accessKey: string;
@@ -43,6 +56,23 @@ interface Config {
     thumbnailMaxHeight: number;
     presignedUrlExpiry: number;
     enableFileDeduplication: boolean;
+    multipartPartSize: number;
+    multipartUploadExpiry: number;
+    tusUploadExpiry: number;
+    tusLockTimeout: number;
+    imageCdrMode: 'off' | 'replace' | 'rendition';
+  };
+  quota: {
+    reservationTtl: number;
+    reservationSweepInterval: number;
+    usageReconcileInterval: number;
+  };
+  reaper: {
+    interval: number;
+    pendingMaxAge: number;
+    rejectedMaxAge: number;
+    orphanGracePeriod: number;
+    batchSize: number;
   };
   rateLimiting: {
     window: number;
@@ -53,6 +83,35 @@ interface Config {
   antivirus: {
     host: string;
     port: number;
+    scanners: string[];
+    yaraRulesPath: string;
+    yaraPath: string;
+    yaraCompilerPath: string;
+    yaraTimeout: number;
+    unavailableRetries: number;
+    unavailableRetryDelay: number;
+    unavailableRetryMaxDelay: number;
+    unavailableAlertThreshold: number;
+    unavailablePolicy: 'fail-open' | 'fail-closed';
+    sevenZipPath: string;
+    archiveMaxDepth: number;
+    archiveMaxEntries: number;
+    archiveMaxRatio: number;
+    archiveMaxExpandedSize: number;
+    officeMacroPolicy: 'quarantine' | 'strip' | 'flag';
+    officeMaxSize: number;
+    pdfMaxSize: number;
+    pdfPreview: boolean;
+    ghostscriptPath: string;
+    pdfPreviewResolution: number;
+    pdfPreviewTimeout: number;
+  };
+  rescan: {
+    interval: number;
+    lookbackDays: number;
+    concurrency: number;
+    rateLimit: number;
+    batchSize: number;
   };
 }
 
@@ -70,6 +129,19 @@ const config: Config = {
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || 's3') as 's3' | 'local',
+    localPath: process.env.STORAGE_LOCAL_PATH || './data/storage',
+    publicUrl: process.env.STORAGE_PUBLIC_URL || 'http://localhost:8000', // Base URL of the API serving signed URLs
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || 'development_storage_signing_secret_change_in_production',
+  },
+  encryption: {
+    enabled: process.env.ENCRYPTION_ENABLED === 'true',
+    keyProvider: (process.env.ENCRYPTION_KEY_PROVIDER || 'config') as 'config' | 'file',
+    masterKeys: process.env.ENCRYPTION_MASTER_KEYS || '', // Comma-separated <id>:<base64 32-byte key> pairs
+    activeKeyId: process.env.ENCRYPTION_ACTIVE_KEY_ID || '',
+    keyringPath: process.env.ENCRYPTION_KEYRING_PATH || './data/keyring.json', // Local KMS stand-in
+  },
   s3: {
     endpoint: process.env.S3_ENDPOINT || 'http://localhost:9000',
     accessKey: process.env.S3_ACCESS_KEY || 'minio',
@@ -97,6 +169,23 @@ const config: Config = {
     thumbnailMaxHeight: parseInt(process.env.THUMBNAIL_MAX_HEIGHT || '300', 10),
     presignedUrlExpiry: parseInt(process.env.PRESIGNED_URL_EXPIRY || '900', 10), // 15 minutes
     enableFileDeduplication: process.env.ENABLE_FILE_DEDUPLICATION === 'true',
+    multipartPartSize: parseInt(process.env.MULTIPART_PART_SIZE || '16777216', 10), // 16MB default
+    multipartUploadExpiry: parseInt(process.env.MULTIPART_UPLOAD_EXPIRY || '86400', 10), // 24 hours
+    tusUploadExpiry: parseInt(process.env.TUS_UPLOAD_EXPIRY || '86400', 10), // 24 hours
+    tusLockTimeout: parseInt(process.env.TUS_LOCK_TIMEOUT || '60', 10), // 1 minute, renewed while data arrives
+    imageCdrMode: (['replace', 'rendition'].includes(process.env.IMAGE_CDR_MODE || '') ? process.env.IMAGE_CDR_MODE : 'off') as 'off' | 'replace' | 'rendition', // Default for users without their own setting
+  },
+  quota: {
+    reservationTtl: parseInt(process.env.QUOTA_RESERVATION_TTL || '3600', 10), // 1 hour
+    reservationSweepInterval: parseInt(process.env.QUOTA_RESERVATION_SWEEP_INTERVAL || '60000', 10), // 1 minute
+    usageReconcileInterval: parseInt(process.env.USAGE_RECONCILE_INTERVAL || '3600000', 10), // 1 hour
+  },
+  reaper: {
+    interval: parseInt(process.env.REAPER_INTERVAL || '3600000', 10), // 1 hour
+    pendingMaxAge: parseInt(process.env.REAPER_PENDING_MAX_AGE || '172800', 10), // 48 hours
+    rejectedMaxAge: parseInt(process.env.REAPER_REJECTED_MAX_AGE || '604800', 10), // 7 days
+    orphanGracePeriod: parseInt(process.env.REAPER_ORPHAN_GRACE_PERIOD || '86400', 10), // 24 hours
+    batchSize: parseInt(process.env.REAPER_BATCH_SIZE || '500', 10),
   },
   rateLimiting: {
     window: parseInt(process.env.RATE_LIMIT_WINDOW || '60000', 10), // 1 minute
@@ -107,6 +196,35 @@ const config: Config = {
   antivirus: {
     host: process.env.CLAMAV_HOST || 'localhost',
     port: parseInt(process.env.CLAMAV_PORT || '3310', 10),
+    scanners: (process.env.SCANNERS || 'clamav,yara,file-name,file-type,archive,office,pdf').split(',').map((name) => name.trim()).filter(Boolean), // Run in order
+    yaraRulesPath: process.env.YARA_RULES_PATH || './rules/yara', // *.yar and *.yara files, reloaded on change
+    yaraPath: process.env.YARA_PATH || 'yara',
+    yaraCompilerPath: process.env.YARAC_PATH || 'yarac',
+    yaraTimeout: parseInt(process.env.YARA_TIMEOUT || '60', 10), // seconds
+    unavailableRetries: parseInt(process.env.SCANNER_UNAVAILABLE_RETRIES || '8', 10),
+    unavailableRetryDelay: parseInt(process.env.SCANNER_UNAVAILABLE_RETRY_DELAY || '60000', 10), // 1 minute, doubled on each retry
+    unavailableRetryMaxDelay: parseInt(process.env.SCANNER_UNAVAILABLE_RETRY_MAX_DELAY || '3600000', 10), // 1 hour
+    unavailableAlertThreshold: parseInt(process.env.SCANNER_UNAVAILABLE_ALERT_THRESHOLD || '3', 10), // Deferred scans of a file before admins are alerted
+    unavailablePolicy: process.env.SCANNER_UNAVAILABLE_POLICY === 'fail-open' ? 'fail-open' : 'fail-closed', // Once retries run out: release the file unscanned, or quarantine it
+    sevenZipPath: process.env.SEVEN_ZIP_PATH || '7z',
+    archiveMaxDepth: parseInt(process.env.ARCHIVE_MAX_DEPTH || '3', 10), // Nested archives inspected inside an upload
+    archiveMaxEntries: parseInt(process.env.ARCHIVE_MAX_ENTRIES || '1000', 10), // Across all nested archives
+    archiveMaxRatio: parseInt(process.env.ARCHIVE_MAX_RATIO || '100', 10), // Expanded size over compressed size
+    archiveMaxExpandedSize: parseInt(process.env.ARCHIVE_MAX_EXPANDED_SIZE || '1073741824', 10), // 1GB
+    officeMacroPolicy: (['strip', 'flag'].includes(process.env.OFFICE_MACRO_POLICY || '') ? process.env.OFFICE_MACRO_POLICY : 'quarantine') as 'quarantine' | 'strip' | 'flag', // Documents with macros, embedded objects or external templates
+    officeMaxSize: parseInt(process.env.OFFICE_MAX_SIZE || '104857600', 10), // 100MB, larger documents are quarantined uninspected
+    pdfMaxSize: parseInt(process.env.PDF_MAX_SIZE || '104857600', 10), // 100MB, larger PDFs are not previewed inline
+    pdfPreview: process.env.PDF_PREVIEW === 'true', // Flatten PDFs with active content into a copy that is previewed instead
+    ghostscriptPath: process.env.GHOSTSCRIPT_PATH || 'gs',
+    pdfPreviewResolution: parseInt(process.env.PDF_PREVIEW_RESOLUTION || '150', 10), // DPI of the flattened pages
+    pdfPreviewTimeout: parseInt(process.env.PDF_PREVIEW_TIMEOUT || '120', 10), // seconds
+  },
+  rescan: {
+    interval: parseInt(process.env.RESCAN_INTERVAL || '86400000', 10), // 24 hours, 0 disables scheduled re-scans
+    lookbackDays: parseInt(process.env.RESCAN_LOOKBACK_DAYS || '30', 10), // Scheduled re-scans cover files uploaded in this window
+    concurrency: parseInt(process.env.RESCAN_CONCURRENCY || '1', 10),
+    rateLimit: parseInt(process.env.RESCAN_RATE_LIMIT || '60', 10), // Re-scans per minute
+    batchSize: parseInt(process.env.RESCAN_BATCH_SIZE || '500', 10),
   },
 };
 
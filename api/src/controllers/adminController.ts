@@ -1,7 +1,11 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { getFileById, deleteFile } from '../services/fileManager';
+import { allowFile, deleteFile } from '../services/fileManager';
 import { getAuditLogs } from '../services/audit';
+import { getYaraRules } from '../services/scanners/yara';
+import { getHashListEntries, addHashListEntry, removeHashListEntry } from '../services/hashLists';
+import { enqueueRescans, RescanFilter } from '../services/rescan';
 import { query } from '../services/db';
+import { auditLog } from '../services/audit';
 import { logger } from '../utils/logger';
 
 /**
@@ -20,8 +24,18 @@ export async function adminListFilesHandler(
   const { status, page = 1, pageSize = 20 } = request.query;
 
   try {
-    // Build query based on status filter
-    let queryText = 'SELECT f.*, u.email as owner_email FROM files f JOIN users u ON f.owner_id = u.id';
+    // Build query based on status filter, with the results of the latest scan so
+    // that quarantined files show what flagged them. Storage keys and data keys
+    // stay out of the response.
+    let queryText = `SELECT f.id, f.owner_id, f.parent_file_id, f.version, f.original_name, f.sanitized_name,
+        f.size_bytes, f.sha256, f.declared_mime, f.detected_mime, f.active_content, f.status, f.reason,
+        f.created_at, f.updated_at, f.scanned_at, u.email as owner_email,
+        (SELECT COALESCE(json_agg(s ORDER BY s.position), '[]')
+         FROM scan_results s
+         WHERE s.scan_id = (
+           SELECT scan_id FROM scan_results WHERE file_id = f.id ORDER BY created_at DESC LIMIT 1
+         )) as latest_scan
+      FROM files f JOIN users u ON f.owner_id = u.id`;
     const queryParams: any[] = [];
     
     if (status) {
@@ -61,6 +75,10 @@ export async function adminListFilesHandler(
 
 /**
  * Admin action on file (allow or delete)
+ *
+ * Both act on any revision of a file. Only quarantined files can be allowed;
+ * files still waiting for a verdict (pending, scanning or scan_pending) and
+ * rejected uploads are never marked clean.
  */
 export async function adminFileActionHandler(
   request: FastifyRequest<{
@@ -74,20 +92,16 @@ export async function adminFileActionHandler(
   const adminId = request.user.id;
 
   try {
-    // Get file details
-    const file = await getFileById(id);
+    // Get file details (including earlier revisions of a file)
+    const fileResult = await query('SELECT id FROM files WHERE id = $1 AND status != $2', [id, 'deleting']);
     
-    if (!file) {
+    if (fileResult.rowCount === 0) {
       return reply.code(404).send({ error: 'File not found' });
     }
     
     if (action === 'allow') {
-      // Update file status to clean
-      await query(
-        'UPDATE files SET status = $1, reason = NULL, updated_at = NOW() WHERE id = $2',
-        ['clean', id]
-      );
-      
+      // Update file status (and that of its blob) to clean
+      await allowFile(id);
       return reply.code(200).send({ success: true });
     } else if (action === 'delete') {
       // Delete the file
@@ -97,6 +111,10 @@ export async function adminFileActionHandler(
       return reply.code(400).send({ error: 'Invalid action' });
     }
   } catch (error) {
+    if ((error as Error).message.includes('Only quarantined files')) {
+      return reply.code(409).send({ error: (error as Error).message });
+    }
+
     logger.error(`Admin file action error for ${id}:`, error);
     return reply.code(500).send({ error: 'Failed to perform action on file' });
   }
@@ -126,15 +144,16 @@ export async function adminListUsersHandler(
         u.email_verified, 
         u.storage_quota_bytes, 
         u.files_quota, 
+        u.max_file_versions,
+        u.image_cdr_mode,
         u.created_at,
-        COUNT(f.id) as file_count,
-        COALESCE(SUM(f.size_bytes), 0) as used_storage
+        COALESCE(uu.file_count + uu.reserved_files, 0) as file_count,
+        COALESCE(uu.used_bytes + uu.reserved_bytes, 0) as used_storage,
+        COALESCE(uu.reserved_bytes, 0) as reserved_storage
       FROM 
         users u
       LEFT JOIN 
-        files f ON u.id = f.owner_id AND f.status != 'rejected'
-      GROUP BY 
-        u.id
+        user_usage uu ON uu.user_id = u.id
       ORDER BY 
         u.created_at DESC
       LIMIT $1 OFFSET $2`,
@@ -157,6 +176,140 @@ export async function adminListUsersHandler(
   }
 }
 
+/**
+ * Update the settings of a user
+ *
+ * A null image CDR mode falls back to the configured default.
+ */
+export async function adminUpdateUserSettingsHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+    Body: { imageCdrMode: 'off' | 'replace' | 'rendition' | null };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const { imageCdrMode } = request.body;
+  const adminId = request.user.id;
+
+  try {
+    const result = await query(
+      'UPDATE users SET image_cdr_mode = $1, updated_at = NOW() WHERE id = $2 RETURNING id, image_cdr_mode',
+      [imageCdrMode, id]
+    );
+
+    if (result.rowCount === 0) {
+      return reply.code(404).send({ error: 'User not found' });
+    }
+
+    await auditLog(
+      adminId,
+      'USER_SETTINGS_UPDATED',
+      'user',
+      id,
+      { imageCdrMode }
+    );
+
+    return reply.code(200).send(result.rows[0]);
+  } catch (error) {
+    logger.error(`Admin update user settings error for ${id}:`, error);
+    return reply.code(500).send({ error: 'Failed to update user settings' });
+  }
+}
+
+/**
+ * List loaded YARA rules for admin
+ */
+export async function adminListYaraRulesHandler(
+  _request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const result = await getYaraRules();
+    return reply.code(200).send(result);
+  } catch (error) {
+    logger.error('Admin list YARA rules error:', error);
+    return reply.code(500).send({ error: 'Failed to list YARA rules' });
+  }
+}
+
+/**
+ * List hash deny and allow list entries for admin
+ */
+export async function adminListHashListHandler(
+  request: FastifyRequest<{
+    Querystring: {
+      list?: 'deny' | 'allow';
+      page?: string;
+      pageSize?: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { list } = request.query;
+  const page = request.query.page ? parseInt(request.query.page, 10) : 1;
+  const pageSize = request.query.pageSize ? parseInt(request.query.pageSize, 10) : 20;
+
+  try {
+    const result = await getHashListEntries(list, page, pageSize);
+    return reply.code(200).send(result);
+  } catch (error) {
+    logger.error('Admin list hash list error:', error);
+    return reply.code(500).send({ error: 'Failed to list hash list entries' });
+  }
+}
+
+/**
+ * Add a hash to the deny or allow list
+ */
+export async function adminAddHashListEntryHandler(
+  request: FastifyRequest<{
+    Body: {
+      sha256: string;
+      list: 'deny' | 'allow';
+      reason?: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { sha256, list, reason } = request.body;
+  const adminId = request.user.id;
+
+  try {
+    const result = await addHashListEntry(sha256, list, reason || null, adminId);
+    return reply.code(200).send(result);
+  } catch (error) {
+    logger.error(`Admin add hash list entry error for ${sha256}:`, error);
+    return reply.code(500).send({ error: 'Failed to add hash list entry' });
+  }
+}
+
+/**
+ * Remove a hash from the deny or allow list
+ */
+export async function adminRemoveHashListEntryHandler(
+  request: FastifyRequest<{
+    Params: { sha256: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { sha256 } = request.params;
+  const adminId = request.user.id;
+
+  try {
+    await removeHashListEntry(sha256, adminId);
+    return reply.code(200).send({ success: true });
+  } catch (error) {
+    logger.error(`Admin remove hash list entry error for ${sha256}:`, error);
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'Hash list entry not found' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to remove hash list entry' });
+  }
+}
+
 /**
  * Get audit logs for admin
  */
@@ -204,3 +357,23 @@ export async function adminGetAuditLogsHandler(
     return reply.code(500).send({ error: 'Failed to get audit logs' });
   }
 }
+
+/**
+ * Queue re-scans of clean files
+ */
+export async function adminRescanHandler(
+  request: FastifyRequest<{
+    Body: RescanFilter;
+  }>,
+  reply: FastifyReply
+) {
+  const adminId = request.user.id;
+
+  try {
+    const queued = await enqueueRescans(request.body || {}, adminId);
+    return reply.code(202).send({ queued });
+  } catch (error) {
+    logger.error('Admin rescan error:', error);
+    return reply.code(500).send({ error: 'Failed to queue re-scans' });
+  }
+}
@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { registerUser, verifyCredentials, createRefreshToken, verifyRefreshToken, invalidateRefreshToken } from '../services/auth';
 import { auditLog } from '../services/audit';
+import { getUserUsage } from '../services/quota';
 import { logger } from '../utils/logger';
 
 /**
@@ -254,21 +255,8 @@ export async function getMeHandler(
     
     const user = userResult.rows[0];
     
-    // Get user storage usage
-    const storageResult = await request.server.pg.query(
-      'SELECT COALESCE(SUM(size_bytes), 0) as used_storage FROM files WHERE owner_id = $1 AND status != $2',
-      [request.user.id, 'rejected']
-    );
-    
-    const usedStorage = parseInt(storageResult.rows[0].used_storage, 10);
-    
-    // Get user files count
-    const filesResult = await request.server.pg.query(
-      'SELECT COUNT(*) as file_count FROM files WHERE owner_id = $1 AND status != $2',
-      [request.user.id, 'rejected']
-    );
-    
-    const fileCount = parseInt(filesResult.rows[0].file_count, 10);
+    // Get user storage usage (pending uploads count through their reservation)
+    const usage = await getUserUsage(request.user.id);
     
     return reply.code(200).send({
       user: {
@@ -277,9 +265,10 @@ export async function getMeHandler(
         role: user.role,
         emailVerified: user.email_verified,
         storageQuota: user.storage_quota_bytes,
-        usedStorage,
+        usedStorage: usage.usedBytes + usage.reservedBytes,
+        reservedStorage: usage.reservedBytes,
         filesQuota: user.files_quota,
-        fileCount,
+        fileCount: usage.fileCount + usage.reservedFiles,
       },
     });
   } catch (error) {
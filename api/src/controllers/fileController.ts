@@ -4,12 +4,21 @@ import {
   completeFileUpload,
   getFilesByOwner,
   getFileById,
+  canPreviewFile,
   generateFileDownloadUrl,
   createFileShare,
   getFileByShareToken,
   deleteFile
 } from '../services/fileManager';
-import { isFileSafeForPreview } from '../services/fileProcessor';
+import {
+  initiateMultipartUpload,
+  getMultipartUpload,
+  generateMultipartPartUrls,
+  completeMultipartFileUpload,
+  abortMultipartFileUpload,
+} from '../services/multipartUpload';
+import { getFileVersions, restoreFileVersion } from '../services/fileVersions';
+import { getFileScanResults } from '../services/scanResults';
 import { auditLog } from '../services/audit';
 import { logger } from '../utils/logger';
 
@@ -22,15 +31,16 @@ export async function initiateUploadHandler(
       fileName: string;
       fileSize: number;
       contentType: string;
+      sha256?: string;
     };
   }>,
   reply: FastifyReply
 ) {
-  const { fileName, fileSize, contentType } = request.body;
+  const { fileName, fileSize, contentType, sha256 } = request.body;
   const userId = request.user.id;
 
   try {
-    const result = await initiateFileUpload(userId, fileName, fileSize, contentType);
+    const result = await initiateFileUpload(userId, fileName, fileSize, contentType, sha256);
     return reply.code(200).send(result);
   } catch (error) {
     logger.error('Initiate upload error:', error);
@@ -60,10 +70,173 @@ export async function completeUploadHandler(
     return reply.code(200).send({ file });
   } catch (error) {
     logger.error(`Complete upload error for file ${id}:`, error);
+
+    if (
+      (error as Error).message.includes('verification failed') ||
+      (error as Error).message.includes('Uploaded object not found') ||
+      (error as Error).message.includes('reservation expired')
+    ) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'File not found' });
+    }
+
     return reply.code(500).send({ error: 'Failed to complete upload' });
   }
 }
 
+/**
+ * Initiate multipart file upload
+ */
+export async function initiateMultipartUploadHandler(
+  request: FastifyRequest<{
+    Body: {
+      fileName: string;
+      fileSize: number;
+      contentType: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { fileName, fileSize, contentType } = request.body;
+  const userId = request.user.id;
+
+  try {
+    const result = await initiateMultipartUpload(userId, fileName, fileSize, contentType);
+    return reply.code(200).send(result);
+  } catch (error) {
+    logger.error('Initiate multipart upload error:', error);
+
+    if ((error as Error).message.includes('quota exceeded') || (error as Error).message.includes('maximum allowed size')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    return reply.code(500).send({ error: 'Failed to initiate multipart upload' });
+  }
+}
+
+/**
+ * Get multipart upload state
+ */
+export async function getMultipartUploadHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    const upload = await getMultipartUpload(id, userId);
+    return reply.code(200).send(upload);
+  } catch (error) {
+    logger.error(`Get multipart upload error for file ${id}:`, error);
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'Multipart upload not found' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to get multipart upload' });
+  }
+}
+
+/**
+ * Get presigned URLs for multipart upload parts
+ */
+export async function getMultipartPartUrlsHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+    Body: { partNumbers: number[] };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const { partNumbers } = request.body;
+  const userId = request.user.id;
+
+  try {
+    const parts = await generateMultipartPartUrls(id, userId, partNumbers);
+    return reply.code(200).send({ parts });
+  } catch (error) {
+    logger.error(`Get multipart part URLs error for file ${id}:`, error);
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'Multipart upload not found' });
+    }
+
+    if ((error as Error).message.includes('Invalid part')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    return reply.code(500).send({ error: 'Failed to generate part URLs' });
+  }
+}
+
+/**
+ * Complete multipart file upload
+ */
+export async function completeMultipartUploadHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+    Body: { parts?: { partNumber: number; etag: string }[] };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const { parts } = request.body || {};
+  const userId = request.user.id;
+
+  try {
+    const file = await completeMultipartFileUpload(id, userId, parts);
+    return reply.code(200).send({ file });
+  } catch (error) {
+    logger.error(`Complete multipart upload error for file ${id}:`, error);
+
+    if ((error as Error).message.includes('verification failed')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'Multipart upload not found' });
+    }
+
+    if ((error as Error).message.includes('Invalid parts')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    return reply.code(500).send({ error: 'Failed to complete multipart upload' });
+  }
+}
+
+/**
+ * Abort multipart file upload
+ */
+export async function abortMultipartUploadHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    await abortMultipartFileUpload(id, userId);
+    return reply.code(200).send({ success: true });
+  } catch (error) {
+    logger.error(`Abort multipart upload error for file ${id}:`, error);
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'Multipart upload not found' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to abort multipart upload' });
+  }
+}
+
 /**
  * Get files list
  */
@@ -116,7 +289,7 @@ export async function getFileHandler(
     }
 
     // Add info about preview safety
-    const canPreview = file.status === 'clean' && file.detected_mime && isFileSafeForPreview(file.detected_mime);
+    const canPreview = await canPreviewFile(file);
 
     return reply.code(200).send({
       ...file,
@@ -141,7 +314,7 @@ export async function downloadFileHandler(
   const userId = request.user.id;
 
   try {
-    const { url, filename } = await generateFileDownloadUrl(id, userId);
+    const { url, filename, previewUrl } = await generateFileDownloadUrl(id, userId);
     
     // Audit log for download
     await auditLog(
@@ -154,7 +327,7 @@ export async function downloadFileHandler(
       request.headers['user-agent']
     );
     
-    return reply.code(200).send({ url, filename });
+    return reply.code(200).send({ url, filename, previewUrl });
   } catch (error) {
     logger.error(`Download file error for ${id}:`, error);
     
@@ -170,6 +343,169 @@ export async function downloadFileHandler(
   }
 }
 
+/**
+ * Initiate upload of a new file version
+ */
+export async function initiateFileVersionHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      fileName: string;
+      fileSize: number;
+      contentType: string;
+      sha256?: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const { fileName, fileSize, contentType, sha256 } = request.body;
+  const userId = request.user.id;
+
+  try {
+    const result = await initiateFileUpload(userId, fileName, fileSize, contentType, sha256, id);
+    return reply.code(200).send(result);
+  } catch (error) {
+    logger.error(`Initiate version upload error for file ${id}:`, error);
+
+    if ((error as Error).message.includes('quota exceeded')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    if ((error as Error).message.includes('not found') || (error as Error).message.includes('access denied')) {
+      return reply.code(404).send({ error: 'File not found or access denied' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to initiate version upload' });
+  }
+}
+
+/**
+ * List file versions
+ */
+export async function getFileVersionsHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    const versions = await getFileVersions(id, userId);
+    return reply.code(200).send({ versions });
+  } catch (error) {
+    logger.error(`Get file versions error for ${id}:`, error);
+
+    if ((error as Error).message.includes('not found') || (error as Error).message.includes('access denied')) {
+      return reply.code(404).send({ error: 'File not found or access denied' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to get file versions' });
+  }
+}
+
+/**
+ * List scan results of a file
+ */
+export async function getFileScansHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    const scans = await getFileScanResults(id, userId, request.user.role === 'admin');
+    return reply.code(200).send({ scans });
+  } catch (error) {
+    logger.error(`Get file scans error for ${id}:`, error);
+
+    if ((error as Error).message.includes('not found') || (error as Error).message.includes('access denied')) {
+      return reply.code(404).send({ error: 'File not found or access denied' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to get file scans' });
+  }
+}
+
+/**
+ * Download a file version
+ */
+export async function downloadFileVersionHandler(
+  request: FastifyRequest<{
+    Params: { id: string; version: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const version = parseInt(request.params.version, 10);
+  const userId = request.user.id;
+
+  try {
+    const { url, filename, previewUrl } = await generateFileDownloadUrl(id, userId, version);
+
+    // Audit log for download
+    await auditLog(
+      userId,
+      'FILE_DOWNLOADED',
+      'file',
+      id,
+      { filename, version },
+      request.ip,
+      request.headers['user-agent']
+    );
+
+    return reply.code(200).send({ url, filename, previewUrl, version });
+  } catch (error) {
+    logger.error(`Download file version error for ${id}:`, error);
+
+    if ((error as Error).message.includes('status')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    if ((error as Error).message.includes('not found') || (error as Error).message.includes('access denied')) {
+      return reply.code(404).send({ error: 'File version not found or access denied' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to generate download URL' });
+  }
+}
+
+/**
+ * Restore a file version
+ */
+export async function restoreFileVersionHandler(
+  request: FastifyRequest<{
+    Params: { id: string; version: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const version = parseInt(request.params.version, 10);
+  const userId = request.user.id;
+
+  try {
+    await restoreFileVersion(id, userId, version);
+    return reply.code(200).send({ success: true, version });
+  } catch (error) {
+    logger.error(`Restore file version error for ${id}:`, error);
+
+    if ((error as Error).message.includes('status') || (error as Error).message.includes('already current')) {
+      return reply.code(400).send({ error: (error as Error).message });
+    }
+
+    if ((error as Error).message.includes('not found') || (error as Error).message.includes('access denied')) {
+      return reply.code(404).send({ error: 'File version not found or access denied' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to restore file version' });
+  }
+}
+
 /**
  * Create file share
  */
@@ -237,10 +573,10 @@ export async function getFileByShareTokenHandler(
     const { file, share } = result;
     
     // Generate download URL for shared file
-    const { url } = await generateFileDownloadUrl(file.id, share.created_by);
+    const { url, previewUrl } = await generateFileDownloadUrl(file.id, share.created_by);
     
     // Add info about preview safety
-    const canPreview = file.detected_mime && isFileSafeForPreview(file.detected_mime);
+    const canPreview = previewUrl !== null;
     
     // Log share access
     await auditLog(
@@ -256,12 +592,13 @@ export async function getFileByShareTokenHandler(
     return reply.code(200).send({
       file: {
         id: file.id,
-        name: file.original_name,
+        name: file.sanitized_name,
         size: file.size_bytes,
         mimeType: file.detected_mime,
         createdAt: file.created_at,
       },
       downloadUrl: url,
+      previewUrl,
       canPreview,
     });
   } catch (error) {
@@ -0,0 +1,54 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getNotifications, markNotificationRead } from '../services/notifications';
+import { logger } from '../utils/logger';
+
+/**
+ * List notifications of the current user
+ */
+export async function listNotificationsHandler(
+  request: FastifyRequest<{
+    Querystring: {
+      unread?: boolean;
+      page?: number;
+      pageSize?: number;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { unread = false, page = 1, pageSize = 20 } = request.query;
+  const userId = request.user.id;
+
+  try {
+    const result = await getNotifications(userId, unread, page, pageSize);
+    return reply.code(200).send(result);
+  } catch (error) {
+    logger.error(`List notifications error for user ${userId}:`, error);
+    return reply.code(500).send({ error: 'Failed to list notifications' });
+  }
+}
+
+/**
+ * Mark a notification as read
+ */
+export async function markNotificationReadHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    await markNotificationRead(id, userId);
+    return reply.code(204).send();
+  } catch (error) {
+    logger.error(`Mark notification read error for ${id}:`, error);
+
+    if ((error as Error).message.includes('not found')) {
+      return reply.code(404).send({ error: 'Notification not found' });
+    }
+
+    return reply.code(500).send({ error: 'Failed to mark notification as read' });
+  }
+}
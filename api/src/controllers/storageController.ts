@@ -0,0 +1,122 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { Readable } from 'stream';
+import {
+  LOCAL_STORAGE_ROUTE,
+  writeSignedObject,
+  writeSignedPart,
+  openObject,
+} from '../services/storageDrivers/local';
+import { verifySignedUrl } from '../services/urlSigning';
+import { DECRYPTED_DOWNLOAD_ROUTE, getObjectInfo, getObjectStream } from '../services/storage';
+import { getPlaintextSize } from '../services/encryption';
+import { logger } from '../utils/logger';
+
+type SignedObjectRequest = FastifyRequest<{
+  Params: { '*': string };
+  Querystring: Record<string, string>;
+}>;
+
+/**
+ * Send an error response for a local storage request
+ */
+function sendStorageError(reply: FastifyReply, error: Error, fallback: string) {
+  if (error.message.includes('signature') || error.message.includes('expired')) {
+    return reply.code(403).send({ error: error.message });
+  }
+
+  if (error.message.includes('not found')) {
+    return reply.code(404).send({ error: error.message });
+  }
+
+  if (error.message.includes('mismatch') || error.message.includes('Invalid storage key')) {
+    return reply.code(400).send({ error: error.message });
+  }
+
+  return reply.code(500).send({ error: fallback });
+}
+
+/**
+ * Store an object or multipart part uploaded through a signed URL
+ */
+export async function localObjectUploadHandler(
+  request: SignedObjectRequest,
+  reply: FastifyReply
+) {
+  const key = request.params['*'];
+
+  try {
+    const params = verifySignedUrl('PUT', LOCAL_STORAGE_ROUTE, key, request.query);
+
+    if (params.uploadId) {
+      const etag = await writeSignedPart(params, request.body as Readable);
+      return reply.code(200).header('ETag', etag).send();
+    }
+
+    await writeSignedObject(key, params, request.headers['content-type'], request.body as Readable);
+    return reply.code(200).send();
+  } catch (error) {
+    logger.error(`Local storage upload error for ${key}:`, error);
+    return sendStorageError(reply, error as Error, 'Failed to store object');
+  }
+}
+
+/**
+ * Stream an object through a signed download URL
+ */
+export async function localObjectDownloadHandler(
+  request: SignedObjectRequest,
+  reply: FastifyReply
+) {
+  const key = request.params['*'];
+
+  try {
+    const params = verifySignedUrl('GET', LOCAL_STORAGE_ROUTE, key, request.query);
+    const object = await openObject(key);
+
+    return reply
+      .code(200)
+      .header('Content-Type', object.contentType)
+      .header('Content-Length', object.size)
+      .header('Content-Disposition', params.disposition)
+      .header('X-Content-Type-Options', 'nosniff')
+      .send(object.stream);
+  } catch (error) {
+    logger.error(`Local storage download error for ${key}:`, error);
+    return sendStorageError(reply, error as Error, 'Failed to read object');
+  }
+}
+
+/**
+ * Stream a decrypted object through a signed download URL
+ */
+export async function decryptedDownloadHandler(
+  request: SignedObjectRequest,
+  reply: FastifyReply
+) {
+  const key = request.params['*'];
+
+  try {
+    const params = verifySignedUrl('GET', DECRYPTED_DOWNLOAD_ROUTE, key, request.query);
+
+    const info = await getObjectInfo(key);
+    if (!info) {
+      throw new Error('Object not found');
+    }
+
+    const stream = await getObjectStream(key, undefined, {
+      keyId: params.keyId,
+      wrappedKey: params.wrappedKey,
+    });
+
+    return reply
+      .code(200)
+      .header('Content-Type', params.contentType || 'application/octet-stream')
+      .header('Content-Length', getPlaintextSize(info.size))
+      .header('Content-Disposition', params.disposition)
+      .header('X-Content-Type-Options', 'nosniff')
+      .send(stream);
+  } catch (error) {
+    logger.error(`Decrypted download error for ${key}:`, error);
+    return sendStorageError(reply, error as Error, 'Failed to read object');
+  }
+}
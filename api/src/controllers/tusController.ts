@@ -0,0 +1,191 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { Readable } from 'stream';
+import {
+  createTusUpload,
+  getTusUpload,
+  appendTusUpload,
+  terminateTusUpload,
+  parseTusMetadata,
+} from '../services/tusUpload';
+import config from '../config';
+import { logger } from '../utils/logger';
+
+const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,expiration,termination';
+
+/**
+ * Send a tus error response for a service error
+ */
+function sendTusError(reply: FastifyReply, error: Error, fallback: string) {
+  if (error.message.includes('not found')) {
+    return reply.code(404).send({ error: 'Upload not found' });
+  }
+
+  if (error.message.includes('expired')) {
+    return reply.code(410).send({ error: 'Upload expired' });
+  }
+
+  if (error.message.includes('offset mismatch')) {
+    return reply.code(409).send({ error: error.message });
+  }
+
+  if (error.message.includes('locked')) {
+    return reply.code(423).send({ error: error.message });
+  }
+
+  if (
+    error.message.includes('length exceeded') ||
+    error.message.includes('maximum allowed size') ||
+    error.message.includes('quota exceeded')
+  ) {
+    return reply.code(413).send({ error: error.message });
+  }
+
+  return reply.code(500).send({ error: fallback });
+}
+
+/**
+ * Check the Tus-Resumable header of a request
+ */
+export async function checkTusResumable(request: FastifyRequest, reply: FastifyReply) {
+  reply.header('Tus-Resumable', TUS_VERSION);
+
+  if (request.method !== 'OPTIONS' && request.headers['tus-resumable'] !== TUS_VERSION) {
+    return reply
+      .code(412)
+      .header('Tus-Version', TUS_VERSION)
+      .send({ error: 'Unsupported tus version' });
+  }
+}
+
+/**
+ * Describe the tus server capabilities
+ */
+export async function tusOptionsHandler(
+  _request: FastifyRequest,
+  reply: FastifyReply
+) {
+  return reply
+    .code(204)
+    .header('Tus-Version', TUS_VERSION)
+    .header('Tus-Extension', TUS_EXTENSIONS)
+    .header('Tus-Max-Size', config.fileUpload.maxSize)
+    .send();
+}
+
+/**
+ * Create a tus upload
+ */
+export async function tusCreateHandler(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const userId = request.user.id;
+  const uploadLength = Number(request.headers['upload-length']);
+
+  if (request.headers['upload-defer-length'] || !Number.isInteger(uploadLength) || uploadLength < 0) {
+    return reply.code(400).send({ error: 'Invalid Upload-Length header' });
+  }
+
+  if (uploadLength > config.fileUpload.maxSize) {
+    return reply.code(413).send({ error: 'Upload-Length exceeds Tus-Max-Size' });
+  }
+
+  try {
+    const metadata = parseTusMetadata(request.headers['upload-metadata'] as string | undefined);
+    const upload = await createTusUpload(userId, uploadLength, metadata);
+
+    return reply
+      .code(201)
+      .header('Location', `/uploads/tus/${upload.fileId}`)
+      .header('Upload-Expires', upload.expiresAt.toUTCString())
+      .send();
+  } catch (error) {
+    logger.error('tus create upload error:', error);
+    return sendTusError(reply, error as Error, 'Failed to create upload');
+  }
+}
+
+/**
+ * Get the offset of a tus upload
+ */
+export async function tusHeadHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    const upload = await getTusUpload(id, userId);
+
+    return reply
+      .code(200)
+      .header('Cache-Control', 'no-store')
+      .header('Upload-Offset', upload.uploadOffset)
+      .header('Upload-Length', upload.uploadLength)
+      .header('Upload-Expires', new Date(upload.expiresAt).toUTCString())
+      .send();
+  } catch (error) {
+    logger.error(`tus head error for upload ${id}:`, error);
+    return sendTusError(reply, error as Error, 'Failed to get upload');
+  }
+}
+
+/**
+ * Append a chunk to a tus upload
+ */
+export async function tusPatchHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+  const offset = Number(request.headers['upload-offset']);
+
+  if (request.headers['content-type'] !== 'application/offset+octet-stream') {
+    return reply.code(415).send({ error: 'Content-Type must be application/offset+octet-stream' });
+  }
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    return reply.code(400).send({ error: 'Invalid Upload-Offset header' });
+  }
+
+  try {
+    const upload = await appendTusUpload(id, userId, offset, request.body as Readable);
+
+    return reply
+      .code(204)
+      .header('Upload-Offset', upload.uploadOffset)
+      .header('Upload-Expires', new Date(upload.expiresAt).toUTCString())
+      .send();
+  } catch (error) {
+    logger.error(`tus patch error for upload ${id}:`, error);
+    return sendTusError(reply, error as Error, 'Failed to write upload');
+  }
+}
+
+/**
+ * Terminate a tus upload
+ */
+export async function tusDeleteHandler(
+  request: FastifyRequest<{
+    Params: { id: string };
+  }>,
+  reply: FastifyReply
+) {
+  const { id } = request.params;
+  const userId = request.user.id;
+
+  try {
+    await terminateTusUpload(id, userId);
+    return reply.code(204).send();
+  } catch (error) {
+    logger.error(`tus delete error for upload ${id}:`, error);
+    return sendTusError(reply, error as Error, 'Failed to terminate upload');
+  }
+}
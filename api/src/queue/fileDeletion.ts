@@ -0,0 +1,21 @@
+import { Queue } from 'bullmq';
+import config from '../config';
+
+// Create a queue for removing deleted files from storage
+const fileDeletionQueue = new Queue('fileDeletion', {
+  connection: {
+    host: new URL(config.redis.url).hostname,
+    port: parseInt(new URL(config.redis.url).port || '6379', 10),
+  },
+  defaultJobOptions: {
+    attempts: 5, // Retry up to 5 times
+    backoff: {
+      type: 'exponential',
+      delay: 5000, // 5 seconds initial delay
+    },
+    removeOnComplete: true, // Remove jobs after successful completion
+    removeOnFail: 100, // Keep the last 100 failed jobs for inspection
+  },
+});
+
+export { fileDeletionQueue };
@@ -0,0 +1,21 @@
+import { Queue } from 'bullmq';
+import config from '../config';
+
+// Create a queue for re-scanning clean files
+const fileRescanQueue = new Queue('fileRescan', {
+  connection: {
+    host: new URL(config.redis.url).hostname,
+    port: parseInt(new URL(config.redis.url).port || '6379', 10),
+  },
+  defaultJobOptions: {
+    attempts: 3, // Retry up to 3 times
+    backoff: {
+      type: 'exponential',
+      delay: 30000, // 30 seconds initial delay
+    },
+    removeOnComplete: true, // Remove jobs after successful completion
+    removeOnFail: true, // Let a later run queue the file again
+  },
+});
+
+export { fileRescanQueue };
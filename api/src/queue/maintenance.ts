@@ -0,0 +1,63 @@
+import { Queue } from 'bullmq';
+import config from '../config';
+
+// Create a queue for scheduled maintenance jobs
+const maintenanceQueue = new Queue('maintenance', {
+  connection: {
+    host: new URL(config.redis.url).hostname,
+    port: parseInt(new URL(config.redis.url).port || '6379', 10),
+  },
+  defaultJobOptions: {
+    removeOnComplete: true, // Remove jobs after successful completion
+    removeOnFail: 100, // Keep the last 100 failed jobs for inspection
+  },
+});
+
+/**
+ * Schedule the repeatable maintenance jobs
+ */
+async function scheduleMaintenanceJobs(): Promise<void> {
+  // Release quota held by abandoned uploads
+  await maintenanceQueue.add(
+    'release-expired-reservations',
+    {},
+    {
+      repeat: { every: config.quota.reservationSweepInterval },
+      jobId: 'release-expired-reservations',
+    }
+  );
+
+  // Recompute usage counters and report drift
+  await maintenanceQueue.add(
+    'reconcile-user-usage',
+    {},
+    {
+      repeat: { every: config.quota.usageReconcileInterval },
+      jobId: 'reconcile-user-usage',
+    }
+  );
+
+  // Expire abandoned uploads and sweep orphaned objects
+  await maintenanceQueue.add(
+    'reap-storage',
+    {},
+    {
+      repeat: { every: config.reaper.interval },
+      jobId: 'reap-storage',
+    }
+  );
+
+  // Re-scan recent clean files with updated signatures
+  if (config.rescan.interval > 0) {
+    await maintenanceQueue.add(
+      'rescan-clean-files',
+      {},
+      {
+        repeat: { every: config.rescan.interval },
+        jobId: 'rescan-clean-files',
+      }
+    );
+  }
+}
+
+export { maintenanceQueue, scheduleMaintenanceJobs };
@@ -9,20 +9,54 @@ import {
 import {
   initiateUploadHandler,
   completeUploadHandler,
+  initiateMultipartUploadHandler,
+  getMultipartUploadHandler,
+  getMultipartPartUrlsHandler,
+  completeMultipartUploadHandler,
+  abortMultipartUploadHandler,
   getFilesHandler,
   getFileHandler,
   downloadFileHandler,
+  initiateFileVersionHandler,
+  getFileVersionsHandler,
+  getFileScansHandler,
+  downloadFileVersionHandler,
+  restoreFileVersionHandler,
   createShareHandler,
   getFileByShareTokenHandler,
   deleteFileHandler,
 } from '../controllers/fileController';
+import {
+  checkTusResumable,
+  tusOptionsHandler,
+  tusCreateHandler,
+  tusHeadHandler,
+  tusPatchHandler,
+  tusDeleteHandler,
+} from '../controllers/tusController';
 import {
   adminListFilesHandler,
   adminFileActionHandler,
   adminListUsersHandler,
+  adminUpdateUserSettingsHandler,
   adminGetAuditLogsHandler,
+  adminListYaraRulesHandler,
+  adminListHashListHandler,
+  adminAddHashListEntryHandler,
+  adminRemoveHashListEntryHandler,
+  adminRescanHandler,
 } from '../controllers/adminController';
+import {
+  listNotificationsHandler,
+  markNotificationReadHandler,
+} from '../controllers/notificationController';
+import {
+  localObjectUploadHandler,
+  localObjectDownloadHandler,
+  decryptedDownloadHandler,
+} from '../controllers/storageController';
 import * as schemas from '../schemas';
+import config from '../config';
 import { logger } from '../utils/logger';
 
 export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
@@ -99,6 +133,28 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
     return getMeHandler(request, reply);
   });
 
+  fastify.get('/notifications', {
+    schema: schemas.listNotificationsSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return listNotificationsHandler(request as any, reply);
+  });
+
+  fastify.post('/notifications/:id/read', {
+    schema: schemas.notificationIdParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return markNotificationReadHandler(request as any, reply);
+  });
+
   // File upload routes
   fastify.post('/uploads/initiate', {
     schema: schemas.initiateUploadSchema,
@@ -122,6 +178,141 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
     return completeUploadHandler(request as any, reply);
   });
 
+  // Multipart upload routes
+  fastify.post('/uploads/multipart/initiate', {
+    schema: schemas.initiateMultipartUploadSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return initiateMultipartUploadHandler(request as any, reply);
+  });
+
+  fastify.get('/uploads/multipart/:id', {
+    schema: schemas.fileIdParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return getMultipartUploadHandler(request as any, reply);
+  });
+
+  fastify.post('/uploads/multipart/:id/parts', {
+    schema: schemas.multipartPartUrlsSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return getMultipartPartUrlsHandler(request as any, reply);
+  });
+
+  fastify.post('/uploads/multipart/:id/complete', {
+    schema: schemas.completeMultipartUploadSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return completeMultipartUploadHandler(request as any, reply);
+  });
+
+  fastify.delete('/uploads/multipart/:id', {
+    schema: schemas.fileIdParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return abortMultipartUploadHandler(request as any, reply);
+  });
+
+  // tus resumable upload routes (https://tus.io/protocols/resumable-upload)
+  fastify.addContentTypeParser('application/offset+octet-stream', (_request, payload, done) => {
+    // Chunks are streamed to storage by the PATCH handler
+    done(null, payload);
+  });
+
+  fastify.options('/uploads/tus', {
+    onRequest: checkTusResumable,
+  }, async (request, reply) => {
+    return tusOptionsHandler(request, reply);
+  });
+
+  fastify.post('/uploads/tus', {
+    onRequest: checkTusResumable,
+    preHandler: fastify.auth([fastify.authenticate]),
+  }, async (request, reply) => {
+    return tusCreateHandler(request, reply);
+  });
+
+  fastify.head('/uploads/tus/:id', {
+    schema: schemas.fileIdParamSchema,
+    onRequest: checkTusResumable,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(404).send({ error: 'Upload not found' });
+    }
+    return tusHeadHandler(request as any, reply);
+  });
+
+  fastify.patch('/uploads/tus/:id', {
+    schema: schemas.fileIdParamSchema,
+    onRequest: checkTusResumable,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(404).send({ error: 'Upload not found' });
+    }
+    return tusPatchHandler(request as any, reply);
+  });
+
+  fastify.delete('/uploads/tus/:id', {
+    schema: schemas.fileIdParamSchema,
+    onRequest: checkTusResumable,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(404).send({ error: 'Upload not found' });
+    }
+    return tusDeleteHandler(request as any, reply);
+  });
+
+  // Signed object URLs of the local storage driver
+  if (config.storage.driver === 'local') {
+    await fastify.register(async (storageRoutes) => {
+      // Objects of any content type are streamed to disk by the handler
+      storageRoutes.removeAllContentTypeParsers();
+      storageRoutes.addContentTypeParser('*', (_request, payload, done) => {
+        done(null, payload);
+      });
+
+      storageRoutes.put('/storage/*', async (request, reply) => {
+        return localObjectUploadHandler(request as any, reply);
+      });
+
+      storageRoutes.get('/storage/*', async (request, reply) => {
+        return localObjectDownloadHandler(request as any, reply);
+      });
+    });
+  }
+
+  // Signed download URLs of encrypted objects
+  fastify.get('/downloads/*', async (request, reply) => {
+    return decryptedDownloadHandler(request as any, reply);
+  });
+
   // File management routes
   fastify.get('/files', {
     preHandler: fastify.auth([fastify.authenticate]),
@@ -151,6 +342,62 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
     return downloadFileHandler(request as any, reply);
   });
 
+  // File version routes
+  fastify.post('/files/:id/versions', {
+    schema: schemas.initiateFileVersionSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return initiateFileVersionHandler(request as any, reply);
+  });
+
+  fastify.get('/files/:id/versions', {
+    schema: schemas.fileIdParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return getFileVersionsHandler(request as any, reply);
+  });
+
+  fastify.get('/files/:id/scans', {
+    schema: schemas.fileIdParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return getFileScansHandler(request as any, reply);
+  });
+
+  fastify.get('/files/:id/versions/:version/download', {
+    schema: schemas.fileVersionParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return downloadFileVersionHandler(request as any, reply);
+  });
+
+  fastify.post('/files/:id/versions/:version/restore', {
+    schema: schemas.fileVersionParamSchema,
+    preHandler: fastify.auth([fastify.authenticate]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return restoreFileVersionHandler(request as any, reply);
+  });
+
   fastify.post('/files/:id/share', {
     schema: schemas.createShareSchema,
     preHandler: fastify.auth([fastify.authenticate]),
@@ -208,11 +455,72 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
     return adminListUsersHandler(request as any, reply);
   });
 
+  fastify.patch('/admin/users/:id/settings', {
+    schema: schemas.adminUpdateUserSettingsSchema,
+    preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return adminUpdateUserSettingsHandler(request as any, reply);
+  });
+
   fastify.get('/admin/audit-logs', {
     preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
   }, async (request, reply) => {
     return adminGetAuditLogsHandler(request as any, reply);
   });
 
+  fastify.get('/admin/yara-rules', {
+    preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
+  }, async (request, reply) => {
+    return adminListYaraRulesHandler(request, reply);
+  });
+
+  fastify.get('/admin/hash-lists', {
+    schema: schemas.adminListHashListSchema,
+    preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return adminListHashListHandler(request as any, reply);
+  });
+
+  fastify.post('/admin/hash-lists', {
+    schema: schemas.adminAddHashListEntrySchema,
+    preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return adminAddHashListEntryHandler(request as any, reply);
+  });
+
+  fastify.delete('/admin/hash-lists/:sha256', {
+    schema: schemas.adminHashListEntryParamSchema,
+    preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return adminRemoveHashListEntryHandler(request as any, reply);
+  });
+
+  fastify.post('/admin/rescans', {
+    schema: schemas.adminRescanSchema,
+    preHandler: fastify.auth([fastify.authenticate, fastify.requireAdmin]),
+    attachValidation: true,
+  }, async (request, reply) => {
+    if (request.validationError) {
+      return reply.code(400).send({ error: request.validationError.message });
+    }
+    return adminRescanHandler(request as any, reply);
+  });
+
   logger.info('Routes registered successfully');
 }
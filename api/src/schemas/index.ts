@@ -30,6 +30,10 @@ export const initiateUploadSchema = z.object({
     fileName: z.string().min(1, 'File name is required').max(255, 'File name too long'),
     fileSize: z.number().int().positive('File size must be positive'),
     contentType: z.string().min(1, 'Content type is required'),
+    sha256: z
+      .string()
+      .regex(/^[a-fA-F0-9]{64}$/, 'SHA-256 must be a 64 character hex string')
+      .optional(),
   }),
 });
 
@@ -39,6 +43,66 @@ export const completeUploadSchema = z.object({
   }),
 });
 
+export const initiateMultipartUploadSchema = z.object({
+  body: z.object({
+    fileName: z.string().min(1, 'File name is required').max(255, 'File name too long'),
+    fileSize: z.number().int().positive('File size must be positive'),
+    contentType: z.string().min(1, 'Content type is required'),
+  }),
+});
+
+export const multipartPartUrlsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid file ID'),
+  }),
+  body: z.object({
+    partNumbers: z
+      .array(z.number().int().min(1, 'Part number must be at least 1').max(10000, 'Part number must be at most 10000'))
+      .min(1, 'At least one part number is required')
+      .max(100, 'At most 100 part URLs can be requested at once'),
+  }),
+});
+
+export const completeMultipartUploadSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid file ID'),
+  }),
+  body: z
+    .object({
+      parts: z
+        .array(
+          z.object({
+            partNumber: z.number().int().min(1).max(10000),
+            etag: z.string().min(1, 'ETag is required'),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+});
+
+export const initiateFileVersionSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid file ID'),
+  }),
+  body: z.object({
+    fileName: z.string().min(1, 'File name is required').max(255, 'File name too long'),
+    fileSize: z.number().int().positive('File size must be positive'),
+    contentType: z.string().min(1, 'Content type is required'),
+    sha256: z
+      .string()
+      .regex(/^[a-fA-F0-9]{64}$/, 'SHA-256 must be a 64 character hex string')
+      .optional(),
+  }),
+});
+
+export const fileVersionParamSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid file ID'),
+    version: z.string().regex(/^[1-9][0-9]*$/, 'Invalid version'),
+  }),
+});
+
 export const fileIdParamSchema = z.object({
   params: z.object({
     id: z.string().uuid('Invalid file ID'),
@@ -71,7 +135,7 @@ export const getShareSchema = z.object({
 export const adminListFilesSchema = z.object({
   querystring: z.object({
     status: z
-      .enum(['pending', 'scanning', 'clean', 'quarantined', 'rejected'])
+      .enum(['pending', 'scanning', 'scan_pending', 'clean', 'quarantined', 'rejected', 'deleting'])
       .optional(),
     page: z.string().optional().transform(val => (val ? parseInt(val, 10) : 1)),
     pageSize: z.string().optional().transform(val => (val ? parseInt(val, 10) : 20)),
@@ -87,6 +151,46 @@ export const adminFileActionSchema = z.object({
   }),
 });
 
+export const adminListHashListSchema = z.object({
+  querystring: z.object({
+    list: z.enum(['deny', 'allow']).optional(),
+    page: z.string().optional().transform(val => (val ? parseInt(val, 10) : 1)),
+    pageSize: z.string().optional().transform(val => (val ? parseInt(val, 10) : 20)),
+  }),
+});
+
+export const adminAddHashListEntrySchema = z.object({
+  body: z.object({
+    sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'SHA-256 must be a 64 character hex string'),
+    list: z.enum(['deny', 'allow']),
+    reason: z.string().max(500, 'Reason too long').optional(),
+  }),
+});
+
+export const adminHashListEntryParamSchema = z.object({
+  params: z.object({
+    sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'SHA-256 must be a 64 character hex string'),
+  }),
+});
+
+export const adminRescanSchema = z.object({
+  body: z.object({
+    from: z.string().datetime('Invalid date').optional().transform(val => (val ? new Date(val) : undefined)),
+    to: z.string().datetime('Invalid date').optional().transform(val => (val ? new Date(val) : undefined)),
+    mimeType: z.string().regex(/^[\w.+-]+\/([\w.+-]+|\*)$/, 'Invalid MIME type').optional(),
+    userId: z.string().uuid('Invalid user ID').optional(),
+  }),
+});
+
+export const adminUpdateUserSettingsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid user ID'),
+  }),
+  body: z.object({
+    imageCdrMode: z.enum(['off', 'replace', 'rendition']).nullable(),
+  }),
+});
+
 export const adminListUsersSchema = z.object({
   querystring: z.object({
     page: z.string().optional().transform(val => (val ? parseInt(val, 10) : 1)),
@@ -106,3 +210,18 @@ export const adminListAuditLogsSchema = z.object({
     pageSize: z.string().optional().transform(val => (val ? parseInt(val, 10) : 20)),
   }),
 });
+
+// Notification schemas
+export const listNotificationsSchema = z.object({
+  querystring: z.object({
+    unread: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+    page: z.string().optional().transform(val => (val ? parseInt(val, 10) : 1)),
+    pageSize: z.string().optional().transform(val => (val ? parseInt(val, 10) : 20)),
+  }),
+});
+
+export const notificationIdParamSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid notification ID'),
+  }),
+});
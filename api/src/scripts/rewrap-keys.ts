@@ -0,0 +1,20 @@
+import { rewrapDataKeys } from '../services/encryption';
+import { logger } from '../utils/logger';
+
+/**
+ * Re-wrap all data keys with the active master key
+ *
+ * Usage: npm run rewrap-keys
+ */
+const run = async () => {
+  try {
+    const summary = await rewrapDataKeys();
+    logger.info(summary, 'Data key re-wrap finished');
+    process.exit(0);
+  } catch (error) {
+    logger.error('Error re-wrapping data keys:', error);
+    process.exit(1);
+  }
+};
+
+run();
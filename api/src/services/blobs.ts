@@ -0,0 +1,132 @@
+import { PoolClient } from 'pg';
+import { getClient } from './db';
+import { ObjectEncryption } from './encryption';
+
+/**
+ * Content-addressed blob shared by deduplicated files
+ */
+export interface Blob {
+  sha256: string;
+  storage_key: string;
+  size_bytes: number;
+  detected_mime: string | null;
+  status: 'clean' | 'quarantined';
+  reason: string | null;
+  key_id: string | null;
+  wrapped_key: string | null;
+  ref_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Point a file at the existing blob with the same content
+ *
+ * The file inherits the blob's storage key, data key and scan verdict, unless
+ * another verdict is given. Returns null if no blob with this content exists yet.
+ */
+export async function linkFileToBlob(
+  fileId: string,
+  sha256: string,
+  verdict?: { status: string; reason: string | null }
+): Promise<Blob | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the blob so that it can't be released while the file is linked
+    const blobResult = await client.query(
+      'SELECT * FROM blobs WHERE sha256 = $1 FOR UPDATE',
+      [sha256]
+    );
+
+    if (blobResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const blob = blobResult.rows[0] as Blob;
+    const { status, reason } = verdict || blob;
+
+    const fileResult = await client.query(
+      `UPDATE files
+       SET sha256 = $1, blob_sha256 = $1, storage_key = $2, detected_mime = $3, status = $4, reason = $5,
+           key_id = $6, wrapped_key = $7, updated_at = NOW(), scanned_at = NOW()
+       WHERE id = $8 AND status != $9`,
+      [sha256, blob.storage_key, blob.detected_mime, status, reason, blob.key_id, blob.wrapped_key, fileId, 'deleting']
+    );
+
+    // The file was deleted while processing
+    if (fileResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(
+      'UPDATE blobs SET ref_count = ref_count + 1 WHERE sha256 = $1',
+      [sha256]
+    );
+
+    await client.query('COMMIT');
+
+    return blob;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Register a processed file as the blob for its content
+ *
+ * Must run inside the transaction that records the file's scan verdict. If
+ * another file registered the same content concurrently, the file keeps its
+ * own object and is not linked.
+ */
+export async function registerBlob(
+  client: PoolClient,
+  file: { id: string; storage_key: string; size_bytes: number },
+  sha256: string,
+  detectedMime: string,
+  status: string,
+  reason: string | null,
+  encryption?: ObjectEncryption
+): Promise<boolean> {
+  const result = await client.query(
+    `INSERT INTO blobs (sha256, storage_key, size_bytes, detected_mime, status, reason, key_id, wrapped_key, ref_count)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 1)
+     ON CONFLICT DO NOTHING`,
+    [sha256, file.storage_key, file.size_bytes, detectedMime, status, reason, encryption?.keyId, encryption?.wrappedKey]
+  );
+
+  if (result.rowCount === 0) {
+    return false;
+  }
+
+  await client.query('UPDATE files SET blob_sha256 = $1 WHERE id = $2', [sha256, file.id]);
+  return true;
+}
+
+/**
+ * Drop a file's reference to its blob
+ *
+ * Must run inside the transaction that deletes the file. Returns the blob's
+ * storage key once the last reference is gone, or null while other files
+ * still use it.
+ */
+export async function releaseBlob(client: PoolClient, sha256: string): Promise<string | null> {
+  const result = await client.query(
+    'UPDATE blobs SET ref_count = ref_count - 1 WHERE sha256 = $1 RETURNING storage_key, ref_count',
+    [sha256]
+  );
+
+  if (result.rowCount === 0 || result.rows[0].ref_count > 0) {
+    return null;
+  }
+
+  await client.query('DELETE FROM blobs WHERE sha256 = $1', [sha256]);
+  return result.rows[0].storage_key;
+}
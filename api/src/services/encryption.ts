@@ -0,0 +1,318 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import { Transform } from 'stream';
+import { query } from './db';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+// Encrypted object layout: magic and base nonce, then AES-256-GCM sealed chunks
+const MAGIC = Buffer.from('WUE1');
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+const HEADER_SIZE = MAGIC.length + NONCE_SIZE;
+const CHUNK_SIZE = 64 * 1024;
+const SEALED_CHUNK_SIZE = CHUNK_SIZE + TAG_SIZE;
+
+// Rows re-wrapped per query
+const REWRAP_BATCH_SIZE = 500;
+
+/**
+ * Data key wrapped by a master key
+ */
+export interface ObjectEncryption {
+  keyId: string;
+  wrappedKey: string;
+}
+
+/**
+ * Master keys used to wrap data keys
+ */
+interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyring: Keyring | null = null;
+
+/**
+ * Load the master keys from config or from the local KMS keyring file
+ */
+function getKeyring(): Keyring {
+  if (keyring) {
+    return keyring;
+  }
+
+  let activeKeyId: string;
+  let entries: [string, string][];
+
+  if (config.encryption.keyProvider === 'file') {
+    // Keyring file: { "activeKeyId": "...", "keys": { "<id>": "<base64 key>" } }
+    const file = JSON.parse(readFileSync(config.encryption.keyringPath, 'utf8'));
+    activeKeyId = file.activeKeyId;
+    entries = Object.entries(file.keys || {});
+  } else {
+    // Master keys: "<id>:<base64 key>,<id>:<base64 key>"
+    activeKeyId = config.encryption.activeKeyId;
+    entries = config.encryption.masterKeys
+      .split(',')
+      .filter(Boolean)
+      .map((entry) => entry.trim().split(':') as [string, string]);
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const [keyId, value] of entries) {
+    const key = Buffer.from(value, 'base64');
+    if (key.length !== 32) {
+      throw new Error(`Master key ${keyId} must be 32 bytes`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`Active master key not found: ${activeKeyId}`);
+  }
+
+  keyring = { activeKeyId, keys };
+  return keyring;
+}
+
+/**
+ * Wrap a data key with the active master key
+ */
+function wrapDataKey(dataKey: Buffer): ObjectEncryption {
+  const { activeKeyId, keys } = getKeyring();
+  const iv = randomBytes(NONCE_SIZE);
+  const cipher = createCipheriv('aes-256-gcm', keys.get(activeKeyId) as Buffer, iv);
+  cipher.setAAD(Buffer.from(activeKeyId));
+
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+  return {
+    keyId: activeKeyId,
+    wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64'),
+  };
+}
+
+/**
+ * Unwrap a data key with the master key that wrapped it
+ */
+export function unwrapDataKey(encryption: ObjectEncryption): Buffer {
+  const masterKey = getKeyring().keys.get(encryption.keyId);
+  if (!masterKey) {
+    throw new Error(`Master key not found: ${encryption.keyId}`);
+  }
+
+  const data = Buffer.from(encryption.wrappedKey, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', masterKey, data.subarray(0, NONCE_SIZE));
+  decipher.setAAD(Buffer.from(encryption.keyId));
+  decipher.setAuthTag(data.subarray(NONCE_SIZE, NONCE_SIZE + TAG_SIZE));
+
+  return Buffer.concat([decipher.update(data.subarray(NONCE_SIZE + TAG_SIZE)), decipher.final()]);
+}
+
+/**
+ * Generate a data key for a new object
+ */
+export function generateDataKey(): { dataKey: Buffer; encryption: ObjectEncryption } {
+  const dataKey = randomBytes(32);
+  return { dataKey, encryption: wrapDataKey(dataKey) };
+}
+
+/**
+ * Get the encryption of a files, blobs or tus_uploads row, if its object is encrypted
+ */
+export function getFileEncryption(row: { key_id?: string | null; wrapped_key?: string | null }): ObjectEncryption | undefined {
+  return row.key_id && row.wrapped_key
+    ? { keyId: row.key_id, wrappedKey: row.wrapped_key }
+    : undefined;
+}
+
+/**
+ * Nonce of a chunk, derived from the object's base nonce and the chunk index
+ */
+function chunkNonce(baseNonce: Buffer, index: number): Buffer {
+  const nonce = Buffer.from(baseNonce);
+  nonce.writeUInt32BE((nonce.readUInt32BE(NONCE_SIZE - 4) ^ index) >>> 0, NONCE_SIZE - 4);
+  return nonce;
+}
+
+/**
+ * Seal one chunk; the final flag is authenticated so truncation is detected
+ */
+function sealChunk(dataKey: Buffer, baseNonce: Buffer, index: number, chunk: Buffer, final: boolean): Buffer {
+  const cipher = createCipheriv('aes-256-gcm', dataKey, chunkNonce(baseNonce, index));
+  cipher.setAAD(Buffer.from([final ? 1 : 0]));
+
+  return Buffer.concat([cipher.update(chunk), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Open one sealed chunk
+ */
+function openChunk(dataKey: Buffer, baseNonce: Buffer, index: number, sealed: Buffer, final: boolean): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', dataKey, chunkNonce(baseNonce, index));
+  decipher.setAAD(Buffer.from([final ? 1 : 0]));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_SIZE)), decipher.final()]);
+}
+
+/**
+ * Create a stream that encrypts plaintext with a data key
+ */
+export function createEncryptStream(dataKey: Buffer): Transform {
+  const baseNonce = randomBytes(NONCE_SIZE);
+  let pending = Buffer.alloc(0);
+  let index = 0;
+
+  return new Transform({
+    construct(callback) {
+      this.push(Buffer.concat([MAGIC, baseNonce]));
+      callback();
+    },
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+
+      // Hold back the last chunk until the end so that it can be sealed as final
+      while (pending.length > CHUNK_SIZE) {
+        this.push(sealChunk(dataKey, baseNonce, index, pending.subarray(0, CHUNK_SIZE), false));
+        pending = pending.subarray(CHUNK_SIZE);
+        index += 1;
+      }
+
+      callback();
+    },
+    flush(callback) {
+      this.push(sealChunk(dataKey, baseNonce, index, pending, true));
+      callback();
+    },
+  });
+}
+
+/**
+ * Create a stream that decrypts an encrypted object with a data key
+ */
+export function createDecryptStream(dataKey: Buffer): Transform {
+  let pending = Buffer.alloc(0);
+  let baseNonce: Buffer | null = null;
+  let index = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+
+      try {
+        if (!baseNonce) {
+          if (pending.length < HEADER_SIZE) {
+            callback();
+            return;
+          }
+          if (!pending.subarray(0, MAGIC.length).equals(MAGIC)) {
+            throw new Error('Object is not encrypted');
+          }
+          baseNonce = Buffer.from(pending.subarray(MAGIC.length, HEADER_SIZE));
+          pending = pending.subarray(HEADER_SIZE);
+        }
+
+        // A chunk is only known not to be the last once more data follows it
+        while (pending.length > SEALED_CHUNK_SIZE) {
+          this.push(openChunk(dataKey, baseNonce, index, pending.subarray(0, SEALED_CHUNK_SIZE), false));
+          pending = pending.subarray(SEALED_CHUNK_SIZE);
+          index += 1;
+        }
+
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        if (!baseNonce || pending.length < TAG_SIZE) {
+          throw new Error('Encrypted object is truncated');
+        }
+        this.push(openChunk(dataKey, baseNonce, index, pending, true));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+/**
+ * Encrypt a buffer held in memory
+ */
+export function encryptBuffer(dataKey: Buffer, plaintext: Buffer): Buffer {
+  const baseNonce = randomBytes(NONCE_SIZE);
+  const chunks: Buffer[] = [MAGIC, baseNonce];
+  const chunkCount = Math.max(1, Math.ceil(plaintext.length / CHUNK_SIZE));
+
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = plaintext.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+    chunks.push(sealChunk(dataKey, baseNonce, index, chunk, index === chunkCount - 1));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Size of the plaintext stored in an encrypted object of the given size
+ */
+export function getPlaintextSize(encryptedSize: number): number {
+  const body = encryptedSize - HEADER_SIZE;
+  return body - Math.ceil(body / SEALED_CHUNK_SIZE) * TAG_SIZE;
+}
+
+/**
+ * Re-wrap every data key that is not wrapped by the active master key
+ *
+ * Run after adding a new master key and making it active; the old key can be
+ * removed once this completes.
+ */
+export async function rewrapDataKeys(): Promise<{ files: number; blobs: number; tus_uploads: number }> {
+  const { activeKeyId } = getKeyring();
+  const summary = { files: 0, blobs: 0, tus_uploads: 0 };
+
+  for (const [table, idColumn] of [['files', 'id'], ['blobs', 'sha256'], ['tus_uploads', 'file_id']] as const) {
+    for (;;) {
+      const result = await query(
+        `SELECT ${idColumn} as id, key_id, wrapped_key FROM ${table}
+         WHERE wrapped_key IS NOT NULL AND key_id != $1
+         LIMIT $2`,
+        [activeKeyId, REWRAP_BATCH_SIZE]
+      );
+
+      if (result.rows.length === 0) {
+        break;
+      }
+
+      for (const row of result.rows) {
+        const dataKey = unwrapDataKey(getFileEncryption(row) as ObjectEncryption);
+        const encryption = wrapDataKey(dataKey);
+
+        // Skip rows whose key changed since they were read
+        const updateResult = await query(
+          `UPDATE ${table} SET key_id = $1, wrapped_key = $2
+           WHERE ${idColumn} = $3 AND key_id = $4 AND wrapped_key = $5`,
+          [encryption.keyId, encryption.wrappedKey, row.id, row.key_id, row.wrapped_key]
+        );
+
+        summary[table] += updateResult.rowCount || 0;
+      }
+    }
+  }
+
+  logger.info(summary, `Re-wrapped data keys with master key ${activeKeyId}`);
+
+  await auditLog(
+    null,
+    'DATA_KEYS_REWRAPPED',
+    'system',
+    null,
+    { keyId: activeKeyId, ...summary }
+  );
+
+  return summary;
+}
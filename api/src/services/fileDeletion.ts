@@ -0,0 +1,98 @@
+import { query, getClient } from './db';
+import { abortMultipartUpload, deleteObjects } from './storage';
+import { releaseBlob } from './blobs';
+import { fileDeletionQueue } from '../queue/fileDeletion';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+/**
+ * Queue removal of a file's storage objects
+ */
+export async function enqueueFileDeletion(fileId: string): Promise<void> {
+  await fileDeletionQueue.add(`delete-${fileId}`, { fileId });
+}
+
+/**
+ * Remove a deleted file from storage, then delete its record
+ *
+ * Files linked to a shared blob only remove the blob's objects once the last
+ * reference to it is gone.
+ */
+export async function purgeFile(fileId: string): Promise<void> {
+  const fileResult = await query(
+    `SELECT f.*, m.upload_id as multipart_upload_id, t.upload_id as tus_upload_id
+     FROM files f
+     LEFT JOIN multipart_uploads m ON m.file_id = f.id
+     LEFT JOIN tus_uploads t ON t.file_id = f.id
+     WHERE f.id = $1 AND f.status = $2`,
+    [fileId, 'deleting']
+  );
+
+  if (fileResult.rowCount === 0) {
+    logger.info(`File ${fileId} already purged`);
+    return;
+  }
+
+  const file = fileResult.rows[0];
+
+  // Discard parts of an unfinished multipart upload
+  const uploadId = file.multipart_upload_id || file.tus_upload_id;
+  if (uploadId) {
+    await abortMultipartUpload(file.storage_key, uploadId).catch((error) => {
+      logger.warn(`Error aborting multipart upload for deleted file ${fileId}:`, error);
+    });
+  }
+
+  const client = await getClient();
+  const keys: string[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    // Derived renditions belong to this file only
+    const renditionsResult = await client.query(
+      'SELECT storage_key FROM file_renditions WHERE file_id = $1',
+      [fileId]
+    );
+    keys.push(...renditionsResult.rows.map((row) => row.storage_key as string));
+
+    // Delete file record (cascade will delete shares and renditions)
+    const deleteResult = await client.query(
+      'DELETE FROM files WHERE id = $1 AND status = $2',
+      [fileId, 'deleting']
+    );
+
+    if (deleteResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return;
+    }
+
+    const storageKey = file.blob_sha256
+      ? await releaseBlob(client, file.blob_sha256)
+      : file.storage_key;
+
+    if (storageKey) {
+      keys.push(storageKey, `thumbnails/${storageKey}`);
+    }
+
+    // Throws if storage does not confirm the removal, so the job is retried
+    await deleteObjects(keys);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  logger.info(`Purged file ${fileId} (${keys.length} objects)`);
+
+  await auditLog(
+    null,
+    'FILE_PURGED',
+    'file',
+    fileId,
+    { fileName: file.original_name, objects: keys.length }
+  );
+}
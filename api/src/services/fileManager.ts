@@ -1,10 +1,18 @@
 import { randomUUID } from 'crypto';
+import path from 'path';
+import mime from 'mime-types';
 import { query, getClient } from './db';
 import { fileProcessingQueue } from '../queue/fileProcessing';
-import { generateUploadUrl, generateDownloadUrl } from './storage';
+import { generateUploadUrl, generateDownloadUrl, getObjectInfo, deleteObjects } from './storage';
 import { logger } from '../utils/logger';
 import { auditLog } from './audit';
 import { isFileSafeForPreview } from './fileProcessor';
+import { reserveUploadQuota, releaseUploadReservation } from './quota';
+import { enqueueFileDeletion } from './fileDeletion';
+import { getFileEncryption } from './encryption';
+import { ArchiveManifest } from './scanners/archive';
+import { sanitizeFileName } from '../utils/filename';
+import config from '../config';
 
 /**
  * File type
@@ -12,13 +20,24 @@ import { isFileSafeForPreview } from './fileProcessor';
 export interface File {
   id: string;
   owner_id: string;
+  parent_file_id: string | null;
+  version: number;
   original_name: string;
+  sanitized_name: string;
   storage_key: string;
   size_bytes: number;
   sha256: string | null;
+  blob_sha256: string | null;
+  declared_sha256: string | null;
   detected_mime: string | null;
-  status: 'pending' | 'scanning' | 'clean' | 'quarantined' | 'rejected';
+  declared_mime: string | null;
+  key_id: string | null;
+  wrapped_key: string | null;
+  archive_manifest: ArchiveManifest | null;
+  active_content: boolean;
+  status: 'pending' | 'scanning' | 'scan_pending' | 'clean' | 'quarantined' | 'rejected' | 'deleting';
   reason: string | null;
+  scan_attempts: number;
   created_at: Date;
   updated_at: Date;
   scanned_at: Date | null;
@@ -26,62 +45,71 @@ export interface File {
 
 /**
  * Initiate file upload
+ *
+ * With a parent file, the upload becomes a new revision of that file instead.
  */
 export async function initiateFileUpload(
   userId: string,
   fileName: string,
   fileSize: number,
-  contentType: string
-): Promise<{ fileId: string; uploadUrl: string }> {
-  // Validate file size
-  const maxFileSize = parseInt(process.env.FILE_UPLOAD_MAX_SIZE || '104857600', 10);
-  if (fileSize > maxFileSize) {
-    throw new Error(`File size exceeds the maximum allowed size (${maxFileSize / 1024 / 1024} MB)`);
-  }
+  contentType: string,
+  sha256?: string,
+  parentFileId?: string
+): Promise<{ fileId: string; version: number; uploadUrl: string; uploadHeaders: Record<string, string> }> {
+  const declaredSha256 = sha256 ? sha256.toLowerCase() : null;
+  const sanitizedName = sanitizeFileName(fileName);
+  const fileId = randomUUID();
+  const client = await getClient();
+  let upload: { url: string; key: string; headers: Record<string, string> };
+  let version = 1;
 
-  // Check user quota
-  const userResult = await query(
-    'SELECT storage_quota_bytes, files_quota FROM users WHERE id = $1',
-    [userId]
-  );
-  
-  if (userResult.rowCount === 0) {
-    throw new Error('User not found');
-  }
-  
-  const user = userResult.rows[0];
-  
-  // Check storage quota
-  const usedStorageResult = await query(
-    'SELECT COALESCE(SUM(size_bytes), 0) as used_storage FROM files WHERE owner_id = $1 AND status != $2',
-    [userId, 'rejected']
-  );
-  
-  const usedStorage = parseInt(usedStorageResult.rows[0].used_storage, 10);
-  if (usedStorage + fileSize > user.storage_quota_bytes) {
-    throw new Error('Storage quota exceeded');
-  }
-  
-  // Check files quota
-  const filesCountResult = await query(
-    'SELECT COUNT(*) as file_count FROM files WHERE owner_id = $1 AND status != $2',
-    [userId, 'rejected']
-  );
-  
-  const fileCount = parseInt(filesCountResult.rows[0].file_count, 10);
-  if (fileCount >= user.files_quota) {
-    throw new Error('Files quota exceeded');
-  }
+  try {
+    await client.query('BEGIN');
 
-  // Generate presigned URL for S3 upload
-  const { url, key } = await generateUploadUrl(contentType, fileSize, fileName);
+    if (parentFileId) {
+      // Lock the parent so that concurrent revisions get distinct numbers
+      const parentResult = await client.query(
+        `SELECT id FROM files
+         WHERE id = $1 AND owner_id = $2 AND parent_file_id IS NULL AND status NOT IN ('pending', 'deleting')
+         FOR UPDATE`,
+        [parentFileId, userId]
+      );
 
-  // Create file record in database
-  const fileId = randomUUID();
-  await query(
-    'INSERT INTO files (id, owner_id, original_name, storage_key, size_bytes) VALUES ($1, $2, $3, $4, $5)',
-    [fileId, userId, fileName, key, fileSize]
-  );
+      if (parentResult.rowCount === 0) {
+        throw new Error('File not found or access denied');
+      }
+
+      const versionResult = await client.query(
+        'SELECT MAX(version) as version FROM files WHERE id = $1 OR parent_file_id = $1',
+        [parentFileId]
+      );
+      version = versionResult.rows[0].version + 1;
+    }
+
+    // Atomically check and reserve quota for the upload
+    await reserveUploadQuota(client, userId, fileId, fileSize, config.quota.reservationTtl);
+
+    // Generate presigned URL for S3 upload
+    upload = await generateUploadUrl(
+      contentType,
+      fileSize,
+      sanitizedName,
+      declaredSha256 || undefined
+    );
+
+    // Create file record in database
+    await client.query(
+      'INSERT INTO files (id, owner_id, parent_file_id, version, original_name, sanitized_name, storage_key, size_bytes, declared_mime, declared_sha256) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)',
+      [fileId, userId, parentFileId || null, version, fileName, sanitizedName, upload.key, fileSize, contentType, declaredSha256]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
 
   // Log file upload initiation
   await auditLog(
@@ -89,10 +117,17 @@ export async function initiateFileUpload(
     'FILE_UPLOAD_INITIATED',
     'file',
     fileId,
-    { fileName, fileSize, contentType }
+    { fileName, fileSize, contentType, sha256: declaredSha256, parentFileId, version }
   );
 
-  return { fileId, uploadUrl: url };
+  return { fileId, version, uploadUrl: upload.url, uploadHeaders: upload.headers };
+}
+
+/**
+ * Normalize a content type for comparison
+ */
+function normalizeContentType(contentType: string | null | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
 }
 
 /**
@@ -100,6 +135,8 @@ export async function initiateFileUpload(
  */
 export async function completeFileUpload(fileId: string, userId: string): Promise<File> {
   const client = await getClient();
+  let file: any;
+  let mismatches: string[] = [];
   
   try {
     // Begin transaction
@@ -107,42 +144,70 @@ export async function completeFileUpload(fileId: string, userId: string): Promis
 
     // Get file record
     const fileResult = await client.query(
-      'SELECT * FROM files WHERE id = $1 AND owner_id = $2',
-      [fileId, userId]
+      'SELECT * FROM files WHERE id = $1 AND owner_id = $2 AND status = $3 FOR UPDATE',
+      [fileId, userId, 'pending']
     );
 
     if (fileResult.rowCount === 0) {
       throw new Error('File not found or not owned by user');
     }
 
-    const file = fileResult.rows[0];
+    file = fileResult.rows[0];
 
-    // Update file status
-    await client.query(
-      'UPDATE files SET status = $1, updated_at = NOW() WHERE id = $2',
-      ['scanning', fileId]
-    );
+    // The reservation is replaced by real usage (or released on rejection)
+    const reserved = await releaseUploadReservation(client, fileId);
+    if (!reserved) {
+      throw new Error('Upload reservation expired');
+    }
 
-    // Queue file for processing
-    await fileProcessingQueue.add(
-      `file-${fileId}`,
-      { fileId },
-      { attempts: 3 }
-    );
+    // The upload state goes with the pending status, so a failed completion can be retried
+    await client.query('DELETE FROM multipart_uploads WHERE file_id = $1', [fileId]);
+    await client.query('DELETE FROM tus_uploads WHERE file_id = $1', [fileId]);
 
-    // Commit transaction
-    await client.query('COMMIT');
+    // Verify the uploaded object against what the client declared at initiate time
+    const objectInfo = await getObjectInfo(file.storage_key);
+    if (!objectInfo) {
+      throw new Error('Uploaded object not found in storage');
+    }
 
-    // Log file upload completion
-    await auditLog(
-      userId,
-      'FILE_UPLOAD_COMPLETED',
-      'file',
-      fileId,
-      { fileName: file.original_name }
-    );
+    const declaredSize = parseInt(file.size_bytes, 10);
+    if (objectInfo.size !== declaredSize) {
+      mismatches.push(`size ${objectInfo.size} does not match declared size ${declaredSize}`);
+    }
+
+    if (
+      file.declared_mime &&
+      normalizeContentType(objectInfo.contentType) !== normalizeContentType(file.declared_mime)
+    ) {
+      mismatches.push(
+        `content type ${objectInfo.contentType || 'unknown'} does not match declared type ${file.declared_mime}`
+      );
+    }
+
+    if (mismatches.length > 0) {
+      // Reject the upload but keep the real size on record
+      await client.query(
+        'UPDATE files SET status = $1, reason = $2, size_bytes = $3, updated_at = NOW() WHERE id = $4',
+        ['rejected', `Upload verification failed: ${mismatches.join('; ')}`, objectInfo.size, fileId]
+      );
+    } else {
+      // Update file status and size from the real object
+      await client.query(
+        'UPDATE files SET status = $1, size_bytes = $2, updated_at = NOW() WHERE id = $3',
+        ['scanning', objectInfo.size, fileId]
+      );
+      file.size_bytes = objectInfo.size;
+
+      // Queue file for processing
+      await fileProcessingQueue.add(
+        `file-${fileId}`,
+        { fileId },
+        { attempts: 3 }
+      );
+    }
 
-    return file;
+    // Commit transaction
+    await client.query('COMMIT');
   } catch (error) {
     // Rollback transaction on error
     await client.query('ROLLBACK');
@@ -151,6 +216,37 @@ export async function completeFileUpload(fileId: string, userId: string): Promis
   } finally {
     client.release();
   }
+
+  if (mismatches.length > 0) {
+    logger.warn(`Upload verification failed for file ${fileId}: ${mismatches.join('; ')}`);
+
+    // Rejected files count toward no quota, so their object is not kept (the reaper sweeps it up if this fails)
+    await deleteObjects([file.storage_key]).catch((error) => {
+      logger.warn(`Error deleting rejected upload of file ${fileId}:`, error);
+    });
+
+    // Log verification failure
+    await auditLog(
+      userId,
+      'FILE_UPLOAD_VERIFICATION_FAILED',
+      'file',
+      fileId,
+      { fileName: file.original_name, mismatches }
+    );
+
+    throw new Error(`Upload verification failed: ${mismatches.join('; ')}`);
+  }
+
+  // Log file upload completion
+  await auditLog(
+    userId,
+    'FILE_UPLOAD_COMPLETED',
+    'file',
+    fileId,
+    { fileName: file.original_name }
+  );
+
+  return file;
 }
 
 /**
@@ -165,7 +261,7 @@ export async function getFilesByOwner(
   const offset = (page - 1) * pageSize;
   
   // Build query based on status filter
-  let queryText = 'SELECT * FROM files WHERE owner_id = $1';
+  let queryText = "SELECT * FROM files WHERE owner_id = $1 AND parent_file_id IS NULL AND status != 'deleting'";
   const queryParams: any[] = [ownerId];
   
   if (status) {
@@ -180,7 +276,7 @@ export async function getFilesByOwner(
   const result = await query(queryText, queryParams);
   
   // Get total count for pagination
-  let countQueryText = 'SELECT COUNT(*) FROM files WHERE owner_id = $1';
+  let countQueryText = "SELECT COUNT(*) FROM files WHERE owner_id = $1 AND parent_file_id IS NULL AND status != 'deleting'";
   const countParams = [ownerId];
   
   if (status) {
@@ -203,7 +299,10 @@ export async function getFilesByOwner(
  * Get file by ID
  */
 export async function getFileById(fileId: string): Promise<File | null> {
-  const result = await query('SELECT * FROM files WHERE id = $1', [fileId]);
+  const result = await query(
+    'SELECT * FROM files WHERE id = $1 AND parent_file_id IS NULL AND status != $2',
+    [fileId, 'deleting']
+  );
   
   if (result.rowCount === 0) {
     return null;
@@ -212,6 +311,25 @@ export async function getFileById(fileId: string): Promise<File | null> {
   return result.rows[0] as File;
 }
 
+/**
+ * Check if a file can be displayed inline, either itself or through its preview copy
+ */
+export async function canPreviewFile(file: File): Promise<boolean> {
+  if (file.status !== 'clean' || !file.detected_mime) {
+    return false;
+  }
+
+  if (isFileSafeForPreview(file.detected_mime, file.active_content)) {
+    return true;
+  }
+
+  const result = await query(
+    'SELECT 1 FROM file_renditions WHERE file_id = $1 AND kind = $2',
+    [file.id, 'preview']
+  );
+  return (result.rowCount || 0) > 0;
+}
+
 /**
  * Check if user can access file
  */
@@ -234,8 +352,8 @@ export async function canAccessFile(
   
   // Check file ownership
   const result = await query(
-    'SELECT id FROM files WHERE id = $1 AND owner_id = $2',
-    [fileId, userId]
+    'SELECT id FROM files WHERE id = $1 AND owner_id = $2 AND parent_file_id IS NULL AND status != $3',
+    [fileId, userId, 'deleting']
   );
   
   return result.rowCount > 0;
@@ -243,16 +361,26 @@ export async function canAccessFile(
 
 /**
  * Generate download URL for file
+ *
+ * Earlier revisions of a file can only be downloaded by its owner.
  */
 export async function generateFileDownloadUrl(
   fileId: string,
-  userId: string
-): Promise<{ url: string; filename: string }> {
+  userId: string,
+  version?: number
+): Promise<{ url: string; filename: string; previewUrl: string | null }> {
   // Get file record
-  const fileResult = await query(
-    'SELECT * FROM files WHERE id = $1 AND (owner_id = $2 OR EXISTS (SELECT 1 FROM file_shares WHERE file_id = $1 AND expires_at > NOW()))',
-    [fileId, userId]
-  );
+  const fileResult = version === undefined
+    ? await query(
+      'SELECT * FROM files WHERE id = $1 AND parent_file_id IS NULL AND (owner_id = $2 OR EXISTS (SELECT 1 FROM file_shares WHERE file_id = $1 AND expires_at > NOW()))',
+      [fileId, userId]
+    )
+    : await query(
+      `SELECT * FROM files
+       WHERE ((id = $1 AND parent_file_id IS NULL) OR parent_file_id = $1)
+         AND owner_id = $2 AND version = $3 AND status != 'deleting'`,
+      [fileId, userId, version]
+    );
   
   if (fileResult.rowCount === 0) {
     throw new Error('File not found or access denied');
@@ -265,9 +393,39 @@ export async function generateFileDownloadUrl(
     throw new Error(`Cannot download file with status: ${file.status}`);
   }
   
+  // Serve the sanitized copy when active content was stripped from the file
+  const renditionResult = await query(
+    'SELECT kind, storage_key, content_type FROM file_renditions WHERE file_id = $1 AND kind = ANY($2)',
+    [file.id, ['sanitized', 'preview']]
+  );
+  const sanitized = renditionResult.rows.find((row) => row.kind === 'sanitized');
+  const preview = renditionResult.rows.find((row) => row.kind === 'preview');
+  const storageKey = sanitized ? sanitized.storage_key : file.storage_key;
+  const contentType = sanitized ? sanitized.content_type : file.detected_mime;
+  const extension = sanitized && mime.extension(contentType);
+  const filename = extension
+    ? `${path.basename(file.sanitized_name, path.extname(file.sanitized_name))}.${extension}`
+    : file.sanitized_name;
+
   // Generate download URL
-  const forceAttachment = !isFileSafeForPreview(file.detected_mime);
-  const url = await generateDownloadUrl(file.storage_key, file.original_name, forceAttachment);
+  const forceAttachment = !isFileSafeForPreview(contentType, file.active_content && !sanitized);
+  const encryption = getFileEncryption(file);
+  const url = await generateDownloadUrl(
+    storageKey,
+    filename,
+    forceAttachment,
+    encryption && { ...encryption, contentType }
+  );
+
+  // Preview the flattened copy of a file whose original cannot be displayed inline
+  const previewUrl = preview
+    ? await generateDownloadUrl(
+      preview.storage_key,
+      filename,
+      false,
+      encryption && { ...encryption, contentType: preview.content_type }
+    )
+    : forceAttachment ? null : url;
   
   // Log download request
   await auditLog(
@@ -275,12 +433,13 @@ export async function generateFileDownloadUrl(
     'FILE_DOWNLOAD_REQUESTED',
     'file',
     fileId,
-    { fileName: file.original_name }
+    { fileName: filename, version: file.version, sanitized: !!sanitized }
   );
   
   return {
     url,
-    filename: file.original_name,
+    filename,
+    previewUrl,
   };
 }
 
@@ -388,8 +547,52 @@ export async function getFileByShareToken(
   };
 }
 
+/**
+ * Mark a quarantined file clean
+ *
+ * A deduplicated file also clears its blob, so that later uploads of the same
+ * content are clean as well.
+ */
+export async function allowFile(fileId: string): Promise<void> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const fileResult = await client.query(
+      `UPDATE files SET status = $1, reason = NULL, updated_at = NOW()
+       WHERE id = $2 AND status = $3
+       RETURNING blob_sha256`,
+      ['clean', fileId, 'quarantined']
+    );
+
+    if (fileResult.rowCount === 0) {
+      throw new Error('Only quarantined files can be allowed');
+    }
+
+    const { blob_sha256: blobSha256 } = fileResult.rows[0];
+    if (blobSha256) {
+      await client.query(
+        'UPDATE blobs SET status = $1, reason = NULL WHERE sha256 = $2 AND status = $3',
+        ['clean', blobSha256, 'quarantined']
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Delete file
+ *
+ * The file and all of its revisions are marked as deleting and their storage
+ * objects are removed by the deletion worker, which deletes the records once
+ * storage confirms it.
  */
 export async function deleteFile(
   fileId: string,
@@ -404,16 +607,56 @@ export async function deleteFile(
     }
   }
   
-  // Get file record for logging
-  const fileResult = await query('SELECT * FROM files WHERE id = $1', [fileId]);
-  if (fileResult.rowCount === 0) {
-    throw new Error('File not found');
+  const client = await getClient();
+  let file: any;
+  let versionIds: string[];
+
+  try {
+    await client.query('BEGIN');
+
+    // Get file record for logging
+    const fileResult = await client.query(
+      'SELECT * FROM files WHERE id = $1 AND status != $2 FOR UPDATE',
+      [fileId, 'deleting']
+    );
+    if (fileResult.rowCount === 0) {
+      throw new Error('File not found');
+    }
+
+    file = fileResult.rows[0];
+
+    // Hide the file and stop counting it against quota
+    await client.query(
+      'UPDATE files SET status = $1, updated_at = NOW() WHERE id = $2',
+      ['deleting', fileId]
+    );
+    await releaseUploadReservation(client, fileId);
+
+    // Revisions go with the file, including uploads still in progress
+    const versionsResult = await client.query(
+      'UPDATE files SET status = $1, updated_at = NOW() WHERE parent_file_id = $2 AND status != $1 RETURNING id',
+      ['deleting', fileId]
+    );
+
+    for (const version of versionsResult.rows) {
+      await releaseUploadReservation(client, version.id);
+    }
+
+    versionIds = versionsResult.rows.map((version) => version.id);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Queue removal of the storage objects once the rows are committed; the reaper
+  // re-queues deletions that never made it into the queue
+  for (const id of [fileId, ...versionIds]) {
+    await enqueueFileDeletion(id);
   }
-  
-  const file = fileResult.rows[0];
-  
-  // Delete file record (cascade will delete shares)
-  await query('DELETE FROM files WHERE id = $1', [fileId]);
   
   // Log file deletion
   await auditLog(
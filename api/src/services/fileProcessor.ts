@@ -1,31 +1,28 @@
 import { createHash } from 'crypto';
-import { fileTypeFromBuffer } from 'file-type';
-import NodeClam from 'clamscan';
+import { Readable } from 'stream';
+import { fromBuffer } from 'file-type';
 import sharp from 'sharp';
 import mime from 'mime-types';
-import { query } from './db';
-import { downloadFileFromS3, uploadFileToS3 } from './storage';
+import { query, getClient } from './db';
+import {
+  getObjectStream,
+  uploadFileToS3,
+  uploadObjectStream,
+  deleteObjects,
+  encryptObject,
+  ObjectEncryption,
+} from './storage';
+import { getFileEncryption } from './encryption';
+import { linkFileToBlob, registerBlob } from './blobs';
+import { scanFile, ScannerUnavailableError } from './scanners';
+import { inspectFileName } from './scanners/fileName';
+import { getHashListEntry, getHashListReport } from './hashLists';
+import { recordScanResults, copyBlobScanResults } from './scanResults';
+import { deferFileScan } from './scanRetry';
 import config from '../config';
 import { logger } from '../utils/logger';
 import { auditLog } from './audit';
 
-// Initialize ClamAV scanner
-const initClamAV = async () => {
-  try {
-    const clamscan = await new NodeClam().init({
-      clamdscan: {
-        socket: false,
-        host: config.antivirus.host,
-        port: config.antivirus.port,
-      },
-    });
-    return clamscan;
-  } catch (error) {
-    logger.error('Failed to initialize ClamAV:', error);
-    throw new Error('Failed to initialize virus scanner');
-  }
-};
-
 // List of file types safe for preview
 const safePreviewTypes = [
   'image/jpeg',
@@ -35,37 +32,125 @@ const safePreviewTypes = [
   'application/pdf',
 ];
 
-// List of potentially dangerous file types
-const dangerousFileTypes = [
-  'application/x-msdownload',
-  'application/x-executable',
-  'application/x-dosexec',
-  'application/x-msdos-program',
-  'application/x-msdos-windows',
-  'application/bat',
-  'application/x-bat',
-  'application/x-msdownload',
-  'application/javascript',
-  'text/javascript',
-  'application/html',
-  'text/html',
-  'application/wasm',
-  'application/jar',
-  'application/java-archive',
-  'image/svg+xml', // SVGs can contain malicious code
-];
+// Raster image types re-encoded by content disarm and reconstruction, with their sharp output format
+const cdrImageFormats: Record<string, keyof sharp.FormatEnum> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/tiff': 'tiff',
+  'image/avif': 'avif',
+};
+
+// Bytes needed by file-type to detect any supported format
+const SNIFF_HEADER_SIZE = 4100;
+
+/**
+ * Calculate the SHA-256 of an object by streaming it
+ */
+async function hashObject(key: string, encryption?: ObjectEncryption): Promise<string> {
+  const hash = createHash('sha256');
+
+  for await (const chunk of await getObjectStream(key, undefined, encryption)) {
+    hash.update(chunk);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Read the first bytes of an object for file type detection
+ */
+async function readObjectHeader(key: string, size: number, encryption?: ObjectEncryption): Promise<Buffer> {
+  if (size === 0) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  const stream = await getObjectStream(
+    key,
+    { start: 0, end: Math.min(size, SNIFF_HEADER_SIZE) - 1 },
+    encryption
+  );
+
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Stream an object into sharp
+ */
+async function openImage(key: string, encryption?: ObjectEncryption, options?: sharp.SharpOptions): Promise<sharp.Sharp> {
+  const source = await getObjectStream(key, undefined, encryption);
+  const image = sharp(options);
+
+  // pipe() does not forward errors of the source stream
+  source.on('error', (error) => image.destroy(error));
+
+  return source.pipe(image);
+}
+
+/**
+ * Get the image CDR mode of a user, falling back to the configured default
+ */
+async function getImageCdrMode(userId: string): Promise<'off' | 'replace' | 'rendition'> {
+  const result = await query('SELECT image_cdr_mode FROM users WHERE id = $1', [userId]);
+  return result.rows[0]?.image_cdr_mode || config.fileUpload.imageCdrMode;
+}
+
+/**
+ * Re-encode an image in its own format, dropping metadata and trailing data,
+ * and stream the result to storage, returning its size
+ *
+ * sharp writes no EXIF, GPS, ICC or XMP data unless asked to, so the pixels are
+ * rotated by the EXIF orientation first to keep the image upright. Animated
+ * GIFs keep all their frames.
+ */
+async function disarmImage(
+  key: string,
+  mimeType: string,
+  encryption: ObjectEncryption | undefined,
+  targetKey: string,
+  targetEncryption?: ObjectEncryption
+): Promise<number> {
+  const animated = mimeType === 'image/gif';
+  const image = await openImage(key, encryption, { animated });
+  const disarmed = (animated ? image : image.rotate()).toFormat(cdrImageFormats[mimeType]);
+  let size = 0;
+
+  await uploadObjectStream(
+    targetKey,
+    Readable.from((async function* () {
+      for await (const chunk of disarmed) {
+        size += chunk.length;
+        yield chunk;
+      }
+    })()),
+    mimeType,
+    targetEncryption
+  );
+
+  return size;
+}
 
 /**
  * Process a file
+ *
+ * The object is streamed for each step so that memory use does not grow with
+ * the file size. With failOpen, scanners that are unavailable are skipped
+ * instead of deferring the scan.
  */
-export async function processFile(fileId: string): Promise<void> {
+export async function processFile(fileId: string, options: { failOpen?: boolean } = {}): Promise<void> {
   logger.info(`Starting to process file: ${fileId}`);
 
   try {
     // Update file status to scanning
     await query(
-      'UPDATE files SET status = $1, updated_at = NOW() WHERE id = $2',
-      ['scanning', fileId]
+      'UPDATE files SET status = $1, updated_at = NOW() WHERE id = $2 AND status != $3 AND blob_sha256 IS NULL',
+      ['scanning', fileId, 'deleting']
     );
 
     // Get file from database
@@ -75,71 +160,149 @@ export async function processFile(fileId: string): Promise<void> {
     }
     const file = fileResult.rows[0];
 
-    // Download file from S3
-    const fileBuffer = await downloadFileFromS3(file.storage_key);
+    // Skip files that were deleted while waiting in the queue
+    if (file.status === 'deleting') {
+      logger.info(`Skipping processing of deleted file ${fileId}`);
+      return;
+    }
+
+    // Files already linked to a blob were processed by an earlier attempt
+    if (file.blob_sha256) {
+      logger.info(`File ${fileId} already processed`);
+      return;
+    }
+
+    // Calculate SHA-256 hash while streaming the object
+    const encryption = getFileEncryption(file);
+    const sha256 = await hashObject(file.storage_key, encryption);
 
-    // Calculate SHA-256 hash
-    const sha256 = createHash('sha256').update(fileBuffer).digest('hex');
+    // Reject the file if it does not match the checksum declared by the client
+    if (file.declared_sha256 && file.declared_sha256 !== sha256) {
+      const reason = `Checksum mismatch: declared ${file.declared_sha256}, computed ${sha256}`;
+      logger.warn(`Checksum mismatch for file ${fileId}: ${reason}`);
 
-    // Check for duplicate files if deduplication is enabled
-    if (config.fileUpload.enableFileDeduplication) {
-      const duplicateResult = await query(
-        'SELECT id FROM files WHERE sha256 = $1 AND id != $2 AND status = $3 LIMIT 1',
-        [sha256, fileId, 'clean']
+      const rejectResult = await query(
+        'UPDATE files SET sha256 = $1, status = $2, reason = $3, updated_at = NOW(), scanned_at = NOW() WHERE id = $4 AND status != $5',
+        [sha256, 'rejected', reason, fileId, 'deleting']
       );
 
-      if (duplicateResult.rowCount > 0) {
-        const duplicateFileId = duplicateResult.rows[0].id;
-        logger.info(`Duplicate file found: ${fileId} is a duplicate of ${duplicateFileId}`);
+      // Deleted files have their object removed by the deletion pipeline instead
+      if ((rejectResult.rowCount || 0) > 0) {
+        await deleteObjects([file.storage_key]).catch((error) => {
+          logger.warn(`Error deleting rejected upload of file ${fileId}:`, error);
+        });
+      }
 
-        // Update file record with duplicate information
-        await query(
-          'UPDATE files SET sha256 = $1, status = $2, updated_at = NOW(), scanned_at = NOW() WHERE id = $3',
-          [sha256, 'clean', fileId]
-        );
+      await auditLog(
+        file.owner_id,
+        'FILE_CHECKSUM_MISMATCH',
+        'file',
+        fileId,
+        { declaredSha256: file.declared_sha256, computedSha256: sha256 }
+      );
+      return;
+    }
+
+    // Denied hashes are quarantined and allowed hashes are trusted without scanning
+    const hashListEntry = await getHashListEntry(sha256);
+    const hashListReport = hashListEntry ? getHashListReport(hashListEntry) : null;
+    if (hashListEntry) {
+      logger.info(`Hash of file ${fileId} is on the ${hashListEntry.list} list`);
+    }
+
+    // Detect MIME type using magic bytes of the header only
+    const header = await readObjectHeader(file.storage_key, parseInt(file.size_bytes, 10), encryption);
+    const fileTypeResult = await fromBuffer(header);
+    const detectedMime = fileTypeResult?.mime || mime.lookup(file.sanitized_name) || 'application/octet-stream';
+
+    // Names are judged per upload, so content known to be clean is scanned again under a disguised name
+    const fileNameCheck = inspectFileName({
+      fileName: file.original_name,
+      declaredMime: file.declared_mime,
+      detectedMime,
+    });
+
+    // Disarmed images are stored per file, so their owners never reuse another file's object
+    const cdrMode = cdrImageFormats[detectedMime] ? await getImageCdrMode(file.owner_id) : 'off';
+
+    // Reuse the stored blob and verdict of identical content if deduplication is enabled
+    if (config.fileUpload.enableFileDeduplication && fileNameCheck.verdict === 'clean' && cdrMode === 'off') {
+      // A listed hash decides the verdict, whatever the blob was given when it was scanned
+      const blob = await linkFileToBlob(
+        fileId,
+        sha256,
+        hashListReport ? { status: hashListReport.status, reason: hashListReport.reason } : undefined
+      );
+
+      if (blob) {
+        logger.info(`Duplicate file found: ${fileId} shares blob ${sha256}`);
+
+        // The file's scan report is that of the verdict it inherits
+        if (hashListReport) {
+          await recordScanResults(fileId, hashListReport.results);
+        } else {
+          await copyBlobScanResults(fileId, sha256);
+        }
+
+        // Drop the redundant upload (the reaper sweeps it up if this fails)
+        if (blob.storage_key !== file.storage_key) {
+          await deleteObjects([file.storage_key]).catch((error) => {
+            logger.warn(`Error deleting duplicate upload of file ${fileId}:`, error);
+          });
+        }
 
         await auditLog(
           file.owner_id,
           'FILE_DEDUPLICATED',
           'file',
           fileId,
-          { originalFileId: fileId, duplicateOfId: duplicateFileId }
+          { sha256, status: hashListReport ? hashListReport.status : blob.status }
         );
         return;
       }
     }
 
-    // Detect MIME type using magic bytes
-    const fileTypeResult = await fileTypeFromBuffer(fileBuffer);
-    const detectedMime = fileTypeResult?.mime || mime.lookup(file.original_name) || 'application/octet-stream';
+    // Run the configured scanner chain
+    const scanReport = hashListReport || await scanFile({
+      fileId,
+      ownerId: file.owner_id,
+      fileName: file.original_name,
+      size: parseInt(file.size_bytes, 10),
+      sha256,
+      detectedMime,
+      declaredMime: file.declared_mime,
+      openStream: () => getObjectStream(file.storage_key, undefined, encryption),
+    });
+
+    await recordScanResults(fileId, scanReport.results);
 
-    // Scan file with ClamAV
-    const clamscan = await initClamAV();
-    const scanResult = await clamscan.scanBuffer(fileBuffer);
+    // Without a detection, a scanner error leaves the file without a verdict
+    if (scanReport.status === 'failed') {
+      throw new Error(scanReport.reason || 'Scan failed');
+    }
+
+    if (scanReport.status === 'unavailable') {
+      if (!options.failOpen) {
+        throw new ScannerUnavailableError(scanReport.reason || 'Scanner unavailable');
+      }
 
-    let status = 'clean';
-    let reason = null;
+      logger.warn(`Releasing file ${fileId} without unavailable scanners: ${scanReport.reason}`);
 
-    // Check if virus detected
-    if (scanResult.isInfected) {
-      status = 'quarantined';
-      reason = `Virus detected: ${scanResult.viruses?.join(', ')}`;
-      logger.warn(`Virus detected in file ${fileId}: ${reason}`);
-      
       await auditLog(
         file.owner_id,
-        'FILE_QUARANTINED',
+        'FILE_SCAN_SKIPPED',
         'file',
         fileId,
-        { reason: reason }
+        { reason: scanReport.reason }
       );
-    } 
-    // Check if file type is dangerous
-    else if (dangerousFileTypes.includes(detectedMime)) {
-      status = 'quarantined';
-      reason = `Potentially dangerous file type detected: ${detectedMime}`;
-      logger.warn(`Dangerous file type in ${fileId}: ${reason}`);
-      
+    }
+
+    const status = scanReport.status === 'quarantined' ? 'quarantined' : 'clean';
+    const reason = status === 'quarantined' ? scanReport.reason : null;
+
+    if (status === 'quarantined') {
+      logger.warn(`Quarantining file ${fileId}: ${reason}`);
+
       await auditLog(
         file.owner_id,
         'FILE_QUARANTINED',
@@ -149,11 +312,60 @@ export async function processFile(fileId: string): Promise<void> {
       );
     }
 
+    // Encrypt the object at ingest; the plaintext upload is deleted once the new key is recorded
+    let storageKey = file.storage_key;
+    let storedEncryption = encryption;
+
+    if (config.encryption.enabled && !encryption) {
+      ({ key: storageKey, encryption: storedEncryption } = await encryptObject(file.storage_key));
+    }
+
+    // Store the copies made by the scanners: downloads serve the sanitized copy and
+    // inline previews the preview copy instead of the original
+    const activeContent = scanReport.results.some((result) => result.activeContent);
+    const renditions: { kind: string; storageKey: string; contentType: string; size: number; content?: Buffer }[] =
+      status === 'clean'
+        ? scanReport.results.flatMap((result) => [
+          ...(result.sanitized ? [{ kind: 'sanitized', storageKey: `sanitized/${storageKey}`, size: result.sanitized.content.length, ...result.sanitized }] : []),
+          ...(result.preview ? [{ kind: 'preview', storageKey: `previews/${storageKey}`, size: result.preview.content.length, ...result.preview }] : []),
+        ])
+        : [];
+
+    // Disarm raster images, either in place of the stored object or as a sanitized copy; the file
+    // keeps the hash of its upload, so declared checksums and hash list entries still match it
+    let storedSize = parseInt(file.size_bytes, 10);
+
+    if (status === 'clean' && cdrMode !== 'off') {
+      if (cdrMode === 'replace') {
+        storedSize = await disarmImage(file.storage_key, detectedMime, encryption, storageKey, storedEncryption);
+      } else {
+        const sanitizedKey = `sanitized/${storageKey}`;
+        const size = await disarmImage(file.storage_key, detectedMime, encryption, sanitizedKey, storedEncryption);
+        renditions.push({ kind: 'sanitized', storageKey: sanitizedKey, contentType: detectedMime, size });
+      }
+    }
+
+    for (const rendition of renditions) {
+      // Disarmed copies were streamed to storage already
+      if (!rendition.content) {
+        continue;
+      }
+
+      await uploadFileToS3(
+        rendition.storageKey,
+        rendition.content,
+        rendition.contentType,
+        { originalFileId: fileId },
+        storedEncryption
+      );
+    }
+
     // For clean files, generate thumbnails for images
     if (status === 'clean' && detectedMime.startsWith('image/') && detectedMime !== 'image/svg+xml') {
       try {
         // Generate thumbnail with stripped metadata
-        const thumbnail = await sharp(fileBuffer)
+        const image = await openImage(file.storage_key, encryption);
+        const thumbnail = await image
           .resize({
             width: config.fileUpload.thumbnailMaxWidth,
             height: config.fileUpload.thumbnailMaxHeight,
@@ -165,10 +377,11 @@ export async function processFile(fileId: string): Promise<void> {
 
         // Upload thumbnail to S3
         await uploadFileToS3(
-          `thumbnails/${file.storage_key}`,
+          `thumbnails/${storageKey}`,
           thumbnail,
           'image/jpeg',
-          { originalFileId: fileId }
+          { originalFileId: fileId },
+          storedEncryption
         );
       } catch (error) {
         logger.error(`Error generating thumbnail for file ${fileId}:`, error);
@@ -178,7 +391,8 @@ export async function processFile(fileId: string): Promise<void> {
     // Handle SVG files - convert to PNG for preview
     if (status === 'clean' && detectedMime === 'image/svg+xml') {
       try {
-        const pngThumbnail = await sharp(fileBuffer)
+        const image = await openImage(file.storage_key, encryption);
+        const pngThumbnail = await image
           .resize({
             width: config.fileUpload.thumbnailMaxWidth,
             height: config.fileUpload.thumbnailMaxHeight,
@@ -190,10 +404,11 @@ export async function processFile(fileId: string): Promise<void> {
 
         // Upload PNG thumbnail to S3
         await uploadFileToS3(
-          `thumbnails/${file.storage_key}`,
+          `thumbnails/${storageKey}`,
           pngThumbnail,
           'image/png',
-          { originalFileId: fileId }
+          { originalFileId: fileId },
+          storedEncryption
         );
       } catch (error) {
         logger.error(`Error converting SVG to PNG for file ${fileId}:`, error);
@@ -201,10 +416,71 @@ export async function processFile(fileId: string): Promise<void> {
     }
 
     // Update file record with processing results
-    await query(
-      'UPDATE files SET sha256 = $1, detected_mime = $2, status = $3, reason = $4, updated_at = NOW(), scanned_at = NOW() WHERE id = $5',
-      [sha256, detectedMime, status, reason, fileId]
-    );
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const updateResult = await client.query(
+        `UPDATE files
+         SET sha256 = $1, detected_mime = $2, status = $3, reason = $4, storage_key = $5, key_id = $6, wrapped_key = $7,
+             active_content = $8, size_bytes = $9, updated_at = NOW(), scanned_at = NOW()
+         WHERE id = $10 AND status != $11`,
+        [
+          sha256,
+          detectedMime,
+          status,
+          reason,
+          storageKey,
+          storedEncryption?.keyId,
+          storedEncryption?.wrappedKey,
+          activeContent,
+          storedSize,
+          fileId,
+          'deleting',
+        ]
+      );
+
+      for (const rendition of (updateResult.rowCount || 0) > 0 ? renditions : []) {
+        await client.query(
+          `INSERT INTO file_renditions (file_id, kind, storage_key, content_type, size_bytes)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (file_id, kind) DO UPDATE
+           SET storage_key = EXCLUDED.storage_key, content_type = EXCLUDED.content_type,
+               size_bytes = EXCLUDED.size_bytes, created_at = NOW()`,
+          [fileId, rendition.kind, rendition.storageKey, rendition.contentType, rendition.size]
+        );
+      }
+
+      // Later uploads of the same content share this file's object and verdict; renditions,
+      // disarmed objects and the active content flag belong to one file, so such files are not shared
+      const shareable = renditions.length === 0 && !activeContent && cdrMode === 'off';
+      if (config.fileUpload.enableFileDeduplication && shareable && (updateResult.rowCount || 0) > 0) {
+        await registerBlob(
+          client,
+          { ...file, storage_key: storageKey },
+          sha256,
+          detectedMime,
+          status,
+          reason,
+          storedEncryption
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Drop the plaintext upload (the reaper sweeps it up if this fails)
+    if (storageKey !== file.storage_key) {
+      await deleteObjects([file.storage_key]).catch((error) => {
+        logger.warn(`Error deleting plaintext upload of file ${fileId}:`, error);
+      });
+    }
 
     // Log successful processing
     logger.info(`Successfully processed file ${fileId} - Status: ${status}`);
@@ -214,15 +490,32 @@ export async function processFile(fileId: string): Promise<void> {
       'FILE_PROCESSED',
       'file',
       fileId,
-      { status }
+      {
+        status,
+        imageCdr: cdrMode,
+        scanners: scanReport.results.map((result) => ({
+          scanner: result.scanner,
+          verdict: result.verdict,
+          findings: result.findings,
+          engineVersion: result.engineVersion,
+          signatureVersion: result.signatureVersion,
+          durationMs: result.durationMs,
+        })),
+      }
     );
   } catch (error) {
+    // Hold the file until the scanner is back instead of rejecting it
+    if (error instanceof ScannerUnavailableError) {
+      await deferFileScan(fileId, error.message);
+      return;
+    }
+
     logger.error(`Error processing file ${fileId}:`, error);
     
     // Update file status to rejected on error
     await query(
-      'UPDATE files SET status = $1, reason = $2, updated_at = NOW(), scanned_at = NOW() WHERE id = $3',
-      ['rejected', `Processing error: ${(error as Error).message}`, fileId]
+      'UPDATE files SET status = $1, reason = $2, updated_at = NOW(), scanned_at = NOW() WHERE id = $3 AND status != $4',
+      ['rejected', `Processing error: ${(error as Error).message}`, fileId, 'deleting']
     );
     
     throw error;
@@ -231,7 +524,9 @@ export async function processFile(fileId: string): Promise<void> {
 
 /**
  * Check if a file type is safe for preview
+ *
+ * Files with active content, such as PDFs with JavaScript, never are.
  */
-export function isFileSafeForPreview(mimeType: string): boolean {
-  return safePreviewTypes.includes(mimeType);
+export function isFileSafeForPreview(mimeType: string, activeContent: boolean = false): boolean {
+  return !activeContent && safePreviewTypes.includes(mimeType);
 }
@@ -0,0 +1,275 @@
+import { PoolClient } from 'pg';
+import { query, getClient } from './db';
+import { enqueueFileDeletion } from './fileDeletion';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+/**
+ * Revision of a file
+ */
+export interface FileVersion {
+  version: number;
+  original_name: string;
+  sanitized_name: string;
+  size_bytes: number;
+  sha256: string | null;
+  detected_mime: string | null;
+  status: 'pending' | 'scanning' | 'scan_pending' | 'clean' | 'quarantined' | 'rejected';
+  reason: string | null;
+  current: boolean;
+  created_at: Date;
+  scanned_at: Date | null;
+}
+
+// Columns that belong to a revision rather than to the file itself
+const REVISION_COLUMNS = [
+  'version',
+  'original_name',
+  'sanitized_name',
+  'storage_key',
+  'size_bytes',
+  'sha256',
+  'blob_sha256',
+  'declared_sha256',
+  'detected_mime',
+  'declared_mime',
+  'key_id',
+  'wrapped_key',
+  'archive_manifest',
+  'active_content',
+  'status',
+  'reason',
+  'created_at',
+  'scanned_at',
+];
+
+/**
+ * Swap the revisions held by a file and one of its revision rows
+ *
+ * The file keeps its ID, so share links and references stay on the file while
+ * its content changes. Renditions and scan results follow the revision they
+ * were made from.
+ */
+async function swapRevisions(client: PoolClient, fileId: string, versionFileId: string): Promise<void> {
+  await client.query(
+    `UPDATE files AS f
+     SET ${REVISION_COLUMNS.map((column) => `${column} = o.${column}`).join(', ')}, updated_at = NOW()
+     FROM files AS o
+     WHERE (f.id = $1 AND o.id = $2) OR (f.id = $2 AND o.id = $1)`,
+    [fileId, versionFileId]
+  );
+
+  // Renditions are moved in two steps so that (file_id, kind) stays unique
+  const renditionsResult = await client.query(
+    'DELETE FROM file_renditions WHERE file_id IN ($1, $2) RETURNING *',
+    [fileId, versionFileId]
+  );
+
+  for (const rendition of renditionsResult.rows) {
+    await client.query(
+      `INSERT INTO file_renditions (id, file_id, kind, storage_key, content_type, size_bytes, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        rendition.id,
+        rendition.file_id === fileId ? versionFileId : fileId,
+        rendition.kind,
+        rendition.storage_key,
+        rendition.content_type,
+        rendition.size_bytes,
+        rendition.created_at,
+      ]
+    );
+  }
+
+  await client.query(
+    `UPDATE scan_results SET file_id = CASE WHEN file_id = $1 THEN $2 ELSE $1 END::uuid
+     WHERE file_id IN ($1, $2)`,
+    [fileId, versionFileId]
+  );
+}
+
+/**
+ * Mark the oldest revisions beyond the owner's retention limit for deletion
+ *
+ * Revisions still being uploaded or scanned are not counted. The caller queues
+ * their removal once the transaction has committed.
+ */
+async function pruneRevisions(
+  client: PoolClient,
+  fileId: string,
+  ownerId: string
+): Promise<{ id: string; version: number }[]> {
+  // The current revision counts towards the limit
+  const result = await client.query(
+    `UPDATE files SET status = 'deleting', updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM files
+       WHERE parent_file_id = $1 AND status IN ('clean', 'quarantined', 'rejected')
+       ORDER BY version DESC
+       OFFSET (SELECT max_file_versions - 1 FROM users WHERE id = $2)
+     )
+     RETURNING id, version`,
+    [fileId, ownerId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * List the revisions of a file, newest first
+ */
+export async function getFileVersions(fileId: string, userId: string): Promise<FileVersion[]> {
+  const result = await query(
+    `SELECT version, original_name, sanitized_name, size_bytes, sha256, detected_mime, status, reason,
+            parent_file_id IS NULL as current, created_at, scanned_at
+     FROM files
+     WHERE ((id = $1 AND parent_file_id IS NULL) OR parent_file_id = $1)
+       AND owner_id = $2 AND status != 'deleting'
+     ORDER BY version DESC`,
+    [fileId, userId]
+  );
+
+  if (!result.rows.some((row) => row.current)) {
+    throw new Error('File not found or access denied');
+  }
+
+  return result.rows;
+}
+
+/**
+ * Make a processed revision current if it is clean and newer than the current one
+ *
+ * Called with the file itself once its own revision has been processed, in
+ * which case the newest clean revision that finished in the meantime is
+ * promoted. A revision that finishes after a newer one stays in the history.
+ */
+export async function promoteFileVersion(fileId: string): Promise<void> {
+  const client = await getClient();
+  let file: any;
+  let revision: any;
+  let pruned: { id: string; version: number }[];
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the file; revisions of any file are only swapped under this lock
+    const fileResult = await client.query(
+      `SELECT f.* FROM files f
+       WHERE f.id = COALESCE((SELECT parent_file_id FROM files WHERE id = $1), $1)
+       FOR UPDATE`,
+      [fileId]
+    );
+
+    file = fileResult.rows[0];
+
+    // Leave the file alone while its own revision is still being processed
+    if (!file || file.parent_file_id || ['pending', 'scanning', 'scan_pending', 'deleting'].includes(file.status)) {
+      await client.query('ROLLBACK');
+      return;
+    }
+
+    const versionResult = await client.query(
+      `SELECT id, version FROM files
+       WHERE parent_file_id = $1 AND status = 'clean' AND version > $2 AND ($3 = $1 OR id = $3)
+       ORDER BY version DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [file.id, file.version, fileId]
+    );
+
+    if (versionResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return;
+    }
+
+    revision = versionResult.rows[0];
+    await swapRevisions(client, file.id, revision.id);
+    pruned = await pruneRevisions(client, file.id, file.owner_id);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  for (const row of pruned) {
+    await enqueueFileDeletion(row.id);
+  }
+
+  logger.info(`Promoted version ${revision.version} of file ${file.id}`);
+
+  await auditLog(
+    file.owner_id,
+    'FILE_VERSION_PROMOTED',
+    'file',
+    file.id,
+    { version: revision.version, prunedVersions: pruned.map((row) => row.version).sort((a, b) => a - b) }
+  );
+}
+
+/**
+ * Make an earlier revision of a file current again
+ */
+export async function restoreFileVersion(fileId: string, userId: string, version: number): Promise<void> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const fileResult = await client.query(
+      `SELECT * FROM files
+       WHERE id = $1 AND owner_id = $2 AND parent_file_id IS NULL AND status != 'deleting'
+       FOR UPDATE`,
+      [fileId, userId]
+    );
+
+    if (fileResult.rowCount === 0) {
+      throw new Error('File not found or access denied');
+    }
+
+    const file = fileResult.rows[0];
+
+    if (file.version === version) {
+      throw new Error('Version is already current');
+    }
+
+    // A revision that is being processed would be overwritten when it finishes
+    if (['pending', 'scanning', 'scan_pending'].includes(file.status)) {
+      throw new Error(`Cannot restore a version while the file has status: ${file.status}`);
+    }
+
+    const versionResult = await client.query(
+      `SELECT id, status FROM files
+       WHERE parent_file_id = $1 AND version = $2 AND status != 'deleting'
+       FOR UPDATE`,
+      [fileId, version]
+    );
+
+    if (versionResult.rowCount === 0) {
+      throw new Error('Version not found');
+    }
+
+    if (versionResult.rows[0].status !== 'clean') {
+      throw new Error(`Cannot restore version with status: ${versionResult.rows[0].status}`);
+    }
+
+    await swapRevisions(client, fileId, versionResult.rows[0].id);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await auditLog(
+    userId,
+    'FILE_VERSION_RESTORED',
+    'file',
+    fileId,
+    { version }
+  );
+}
@@ -0,0 +1,203 @@
+import { query, getClient } from './db';
+import { ScanReport } from './scanners';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+import { notifyUser } from './notifications';
+
+/**
+ * SHA-256 on the deny or allow list
+ */
+export interface HashListEntry {
+  sha256: string;
+  list: 'deny' | 'allow';
+  reason: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+/**
+ * Look up a file hash on the deny and allow lists
+ */
+export async function getHashListEntry(sha256: string): Promise<HashListEntry | null> {
+  const result = await query('SELECT * FROM hash_list_entries WHERE sha256 = $1', [sha256.toLowerCase()]);
+  return result.rowCount === 0 ? null : (result.rows[0] as HashListEntry);
+}
+
+/**
+ * Verdict for a file whose hash is listed, used instead of running the scanners
+ */
+export function getHashListReport(entry: HashListEntry): ScanReport {
+  const denied = entry.list === 'deny';
+
+  return {
+    status: denied ? 'quarantined' : 'clean',
+    reason: denied ? `Hash on deny list${entry.reason ? `: ${entry.reason}` : ''}` : null,
+    results: [
+      {
+        scanner: 'hash-list',
+        verdict: denied ? 'infected' : 'clean',
+        findings: [{ name: `${entry.list}-list`, detail: entry.reason || undefined }],
+        engineVersion: null,
+        signatureVersion: null,
+        durationMs: 0,
+        error: null,
+      },
+    ],
+  };
+}
+
+/**
+ * List hash list entries
+ */
+export async function getHashListEntries(
+  list?: 'deny' | 'allow',
+  page: number = 1,
+  pageSize: number = 20
+): Promise<{ entries: HashListEntry[]; total: number; page: number; pageSize: number }> {
+  const result = await query(
+    `SELECT * FROM hash_list_entries
+     WHERE ($1::text IS NULL OR list = $1)
+     ORDER BY created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [list || null, pageSize, (page - 1) * pageSize]
+  );
+
+  const countResult = await query(
+    'SELECT COUNT(*) FROM hash_list_entries WHERE ($1::text IS NULL OR list = $1)',
+    [list || null]
+  );
+
+  return {
+    entries: result.rows,
+    total: parseInt(countResult.rows[0].count, 10),
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Put a hash on the deny or allow list
+ *
+ * Denying a hash quarantines the clean files and blobs that already have it,
+ * expires their share links and notifies their owners.
+ * Allowing a hash clears a quarantined blob, so that later uploads of it are
+ * clean; files already quarantined stay so until an admin allows them. A hash
+ * is on at most one list; adding it to the other list moves it.
+ */
+export async function addHashListEntry(
+  sha256: string,
+  list: 'deny' | 'allow',
+  reason: string | null,
+  adminId: string
+): Promise<{ entry: HashListEntry; quarantinedFiles: number }> {
+  const hash = sha256.toLowerCase();
+  const client = await getClient();
+  let entry: HashListEntry;
+  let quarantined: { id: string; owner_id: string; sanitized_name: string }[] = [];
+  let fileReason: string | null = null;
+  let sharesDisabled = 0;
+
+  try {
+    await client.query('BEGIN');
+
+    const entryResult = await client.query(
+      `INSERT INTO hash_list_entries (sha256, list, reason, created_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (sha256) DO UPDATE
+       SET list = EXCLUDED.list, reason = EXCLUDED.reason, created_by = EXCLUDED.created_by, created_at = NOW()
+       RETURNING *`,
+      [hash, list, reason, adminId]
+    );
+    entry = entryResult.rows[0];
+
+    if (list === 'deny') {
+      fileReason = getHashListReport(entry).reason;
+
+      // Later uploads linked to the same blob inherit the new verdict
+      await client.query(
+        'UPDATE blobs SET status = $1, reason = $2 WHERE sha256 = $3 AND status = $4',
+        ['quarantined', fileReason, hash, 'clean']
+      );
+
+      const filesResult = await client.query(
+        `UPDATE files SET status = $1, reason = $2, updated_at = NOW()
+         WHERE sha256 = $3 AND status = $4
+         RETURNING id, owner_id, sanitized_name`,
+        ['quarantined', fileReason, hash, 'clean']
+      );
+      quarantined = filesResult.rows;
+
+      const sharesResult = await client.query(
+        'UPDATE file_shares SET expires_at = NOW() WHERE file_id = ANY($1) AND expires_at > NOW()',
+        [quarantined.map((row) => row.id)]
+      );
+      sharesDisabled = sharesResult.rowCount || 0;
+    } else {
+      await client.query(
+        'UPDATE blobs SET status = $1, reason = NULL WHERE sha256 = $2 AND status = $3',
+        ['clean', hash, 'quarantined']
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await auditLog(
+    adminId,
+    'HASH_LIST_ENTRY_ADDED',
+    'hash_list_entry',
+    hash,
+    { list, reason, quarantinedFiles: quarantined.length }
+  );
+
+  if (quarantined.length > 0) {
+    logger.warn(`Quarantined ${quarantined.length} files with denied hash ${hash}`);
+  }
+
+  for (const file of quarantined) {
+    await auditLog(
+      adminId,
+      'FILE_QUARANTINED',
+      'file',
+      file.id,
+      { reason: fileReason, sha256: hash, ownerId: file.owner_id, sharesDisabled }
+    );
+
+    await notifyUser(
+      file.owner_id,
+      'file_quarantined',
+      `Your file "${file.sanitized_name}" was quarantined: ${fileReason}. Its share links have been disabled.`,
+      { fileId: file.id, reason: fileReason }
+    );
+  }
+
+  return { entry, quarantinedFiles: quarantined.length };
+}
+
+/**
+ * Take a hash off the deny or allow list
+ *
+ * Files quarantined because of the entry stay quarantined until an admin
+ * allows them.
+ */
+export async function removeHashListEntry(sha256: string, adminId: string): Promise<void> {
+  const hash = sha256.toLowerCase();
+  const result = await query('DELETE FROM hash_list_entries WHERE sha256 = $1 RETURNING list', [hash]);
+
+  if (result.rowCount === 0) {
+    throw new Error('Hash list entry not found');
+  }
+
+  await auditLog(
+    adminId,
+    'HASH_LIST_ENTRY_REMOVED',
+    'hash_list_entry',
+    hash,
+    { list: result.rows[0].list }
+  );
+}
@@ -0,0 +1,225 @@
+import { randomUUID } from 'crypto';
+import { query, getClient } from './db';
+import {
+  createMultipartUpload,
+  generateUploadPartUrl,
+  listUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  getObjectInfo,
+  deleteObjects,
+  UploadedPart,
+} from './storage';
+import { completeFileUpload, File } from './fileManager';
+import { reserveUploadQuota } from './quota';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { sanitizeFileName } from '../utils/filename';
+import { auditLog } from './audit';
+
+// S3 limits for multipart uploads
+const MIN_PART_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_PART_COUNT = 10000;
+
+/**
+ * Multipart upload session
+ */
+export interface MultipartUpload {
+  fileId: string;
+  fileName: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  uploadedParts: UploadedPart[];
+}
+
+/**
+ * Calculate the part size for a file of the given size
+ */
+export function calculatePartSize(fileSize: number): number {
+  const partSize = Math.max(config.fileUpload.multipartPartSize, MIN_PART_SIZE);
+  return Math.max(partSize, Math.ceil(fileSize / MAX_PART_COUNT));
+}
+
+/**
+ * Get a pending multipart upload owned by the user
+ */
+async function getPendingMultipartUpload(fileId: string, userId: string) {
+  const result = await query(
+    `SELECT f.*, m.upload_id, m.part_size, m.part_count
+     FROM files f
+     JOIN multipart_uploads m ON m.file_id = f.id
+     JOIN quota_reservations r ON r.file_id = f.id
+     WHERE f.id = $1 AND f.owner_id = $2 AND f.status = $3`,
+    [fileId, userId, 'pending']
+  );
+
+  if (result.rowCount === 0) {
+    throw new Error('Multipart upload not found or not owned by user');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Initiate multipart file upload
+ */
+export async function initiateMultipartUpload(
+  userId: string,
+  fileName: string,
+  fileSize: number,
+  contentType: string
+): Promise<{ fileId: string; partSize: number; partCount: number }> {
+  const partSize = calculatePartSize(fileSize);
+  const partCount = Math.max(1, Math.ceil(fileSize / partSize));
+  const sanitizedName = sanitizeFileName(fileName);
+
+  // Create multipart upload in S3
+  const { uploadId, key } = await createMultipartUpload(contentType, sanitizedName);
+
+  const fileId = randomUUID();
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    // Atomically check and reserve quota for the upload, held while it can be resumed
+    await reserveUploadQuota(client, userId, fileId, fileSize, config.fileUpload.multipartUploadExpiry);
+
+    // Create file record and upload state in database
+    await client.query(
+      'INSERT INTO files (id, owner_id, original_name, sanitized_name, storage_key, size_bytes, declared_mime) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+      [fileId, userId, fileName, sanitizedName, key, fileSize, contentType]
+    );
+
+    await client.query(
+      'INSERT INTO multipart_uploads (file_id, upload_id, part_size, part_count) VALUES ($1, $2, $3, $4)',
+      [fileId, uploadId, partSize, partCount]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Error initiating multipart upload:', error);
+
+    // Don't leave an orphaned upload in S3
+    await abortMultipartUpload(key, uploadId).catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Log multipart upload initiation
+  await auditLog(
+    userId,
+    'FILE_MULTIPART_UPLOAD_INITIATED',
+    'file',
+    fileId,
+    { fileName, fileSize, contentType, partSize, partCount }
+  );
+
+  return { fileId, partSize, partCount };
+}
+
+/**
+ * Get the state of a multipart upload so that a client can resume it
+ */
+export async function getMultipartUpload(fileId: string, userId: string): Promise<MultipartUpload> {
+  const upload = await getPendingMultipartUpload(fileId, userId);
+  const uploadedParts = await listUploadedParts(upload.storage_key, upload.upload_id);
+
+  return {
+    fileId,
+    fileName: upload.original_name,
+    fileSize: parseInt(upload.size_bytes, 10),
+    partSize: parseInt(upload.part_size, 10),
+    partCount: upload.part_count,
+    uploadedParts,
+  };
+}
+
+/**
+ * Generate presigned URLs for uploading parts of a multipart upload
+ */
+export async function generateMultipartPartUrls(
+  fileId: string,
+  userId: string,
+  partNumbers: number[]
+): Promise<{ partNumber: number; url: string }[]> {
+  const upload = await getPendingMultipartUpload(fileId, userId);
+
+  for (const partNumber of partNumbers) {
+    if (partNumber < 1 || partNumber > upload.part_count) {
+      throw new Error(`Invalid part number: ${partNumber}`);
+    }
+  }
+
+  return Promise.all(
+    partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await generateUploadPartUrl(upload.storage_key, upload.upload_id, partNumber),
+    }))
+  );
+}
+
+/**
+ * Complete multipart file upload
+ */
+export async function completeMultipartFileUpload(
+  fileId: string,
+  userId: string,
+  parts?: { partNumber: number; etag: string }[]
+): Promise<File> {
+  const upload = await getPendingMultipartUpload(fileId, userId);
+
+  // Fall back to the parts known to S3 if the client did not send its ETags
+  const partsToComplete = parts && parts.length > 0
+    ? parts
+    : await listUploadedParts(upload.storage_key, upload.upload_id);
+
+  const partNumbers = new Set(partsToComplete.map((part) => part.partNumber));
+  if (partNumbers.size !== upload.part_count || partsToComplete.length !== upload.part_count) {
+    throw new Error(`Invalid parts: expected ${upload.part_count} parts, got ${partNumbers.size}`);
+  }
+
+  // Assemble the parts in S3, unless an earlier attempt whose completion failed already did
+  try {
+    await completeMultipartUpload(upload.storage_key, upload.upload_id, partsToComplete);
+  } catch (error) {
+    if (!(await getObjectInfo(upload.storage_key))) {
+      throw error;
+    }
+  }
+
+  // Hand over to the regular completion flow, which drops the upload state
+  return completeFileUpload(fileId, userId);
+}
+
+/**
+ * Abort multipart file upload
+ */
+export async function abortMultipartFileUpload(fileId: string, userId: string): Promise<void> {
+  const upload = await getPendingMultipartUpload(fileId, userId);
+
+  // Discard uploaded parts in S3, or the object an earlier completion attempt assembled
+  try {
+    await abortMultipartUpload(upload.storage_key, upload.upload_id);
+  } catch (error) {
+    if (!(await getObjectInfo(upload.storage_key))) {
+      throw error;
+    }
+    await deleteObjects([upload.storage_key]);
+  }
+
+  // Delete file record (cascade will delete the upload state)
+  await query('DELETE FROM files WHERE id = $1', [fileId]);
+
+  // Log multipart upload abort
+  await auditLog(
+    userId,
+    'FILE_MULTIPART_UPLOAD_ABORTED',
+    'file',
+    fileId,
+    { fileName: upload.original_name }
+  );
+}
@@ -0,0 +1,79 @@
+import { query } from './db';
+import { logger } from '../utils/logger';
+
+/**
+ * Message shown to a user
+ */
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: string;
+  message: string;
+  metadata: Record<string, any> | null;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Notify a user
+ */
+export async function notifyUser(
+  userId: string,
+  type: string,
+  message: string,
+  metadata: Record<string, any> = {}
+): Promise<void> {
+  try {
+    await query(
+      'INSERT INTO notifications (user_id, type, message, metadata) VALUES ($1, $2, $3, $4)',
+      [userId, type, message, JSON.stringify(metadata)]
+    );
+  } catch (error) {
+    // Log the error but don't throw it - a lost notification should not break functionality
+    logger.error(`Failed to notify user ${userId}:`, error);
+  }
+}
+
+/**
+ * Get the notifications of a user, newest first
+ */
+export async function getNotifications(
+  userId: string,
+  unreadOnly: boolean = false,
+  page: number = 1,
+  pageSize: number = 20
+): Promise<{ notifications: Notification[]; unread: number; page: number; pageSize: number }> {
+  const result = await query(
+    `SELECT * FROM notifications
+     WHERE user_id = $1 AND ($2::boolean = FALSE OR read_at IS NULL)
+     ORDER BY created_at DESC
+     LIMIT $3 OFFSET $4`,
+    [userId, unreadOnly, pageSize, (page - 1) * pageSize]
+  );
+
+  const unreadResult = await query(
+    'SELECT COUNT(*) FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+    [userId]
+  );
+
+  return {
+    notifications: result.rows,
+    unread: parseInt(unreadResult.rows[0].count, 10),
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Mark a notification as read
+ */
+export async function markNotificationRead(notificationId: string, userId: string): Promise<void> {
+  const result = await query(
+    'UPDATE notifications SET read_at = COALESCE(read_at, NOW()) WHERE id = $1 AND user_id = $2',
+    [notificationId, userId]
+  );
+
+  if (result.rowCount === 0) {
+    throw new Error('Notification not found');
+  }
+}
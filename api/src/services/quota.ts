@@ -0,0 +1,236 @@
+import { PoolClient } from 'pg';
+import { query, getClient } from './db';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+/**
+ * Per-user usage counters
+ */
+export interface UserUsage {
+  usedBytes: number;
+  fileCount: number;
+  reservedBytes: number;
+  reservedFiles: number;
+}
+
+/**
+ * Get the usage counters of a user
+ */
+export async function getUserUsage(userId: string): Promise<UserUsage> {
+  const result = await query(
+    'SELECT used_bytes, file_count, reserved_bytes, reserved_files FROM user_usage WHERE user_id = $1',
+    [userId]
+  );
+
+  if (result.rowCount === 0) {
+    return { usedBytes: 0, fileCount: 0, reservedBytes: 0, reservedFiles: 0 };
+  }
+
+  const usage = result.rows[0];
+
+  return {
+    usedBytes: parseInt(usage.used_bytes, 10),
+    fileCount: usage.file_count,
+    reservedBytes: parseInt(usage.reserved_bytes, 10),
+    reservedFiles: usage.reserved_files,
+  };
+}
+
+/**
+ * Reserve quota for an upload
+ *
+ * Must run inside the transaction that creates the file record. The user's
+ * usage row is locked so that concurrent initiates for the same user are
+ * serialized and cannot each pass the quota check.
+ */
+export async function reserveUploadQuota(
+  client: PoolClient,
+  userId: string,
+  fileId: string,
+  fileSize: number,
+  ttlSeconds: number
+): Promise<void> {
+  // Validate file size
+  const maxFileSize = config.fileUpload.maxSize;
+  if (fileSize > maxFileSize) {
+    throw new Error(`File size exceeds the maximum allowed size (${maxFileSize / 1024 / 1024} MB)`);
+  }
+
+  // Lock user usage
+  const userResult = await client.query(
+    `SELECT u.storage_quota_bytes, u.files_quota, uu.used_bytes, uu.file_count, uu.reserved_bytes, uu.reserved_files
+     FROM users u
+     JOIN user_usage uu ON uu.user_id = u.id
+     WHERE u.id = $1
+     FOR UPDATE OF uu`,
+    [userId]
+  );
+
+  if (userResult.rowCount === 0) {
+    throw new Error('User not found');
+  }
+
+  // Usage is stored files plus outstanding reservations
+  const usage = userResult.rows[0];
+
+  // Check storage quota
+  const usedStorage = parseInt(usage.used_bytes, 10) + parseInt(usage.reserved_bytes, 10);
+  if (usedStorage + fileSize > usage.storage_quota_bytes) {
+    throw new Error('Storage quota exceeded');
+  }
+
+  // Check files quota
+  const fileCount = usage.file_count + usage.reserved_files;
+  if (fileCount >= usage.files_quota) {
+    throw new Error('Files quota exceeded');
+  }
+
+  await client.query(
+    `INSERT INTO quota_reservations (file_id, user_id, reserved_bytes, expires_at)
+     VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 second')`,
+    [fileId, userId, fileSize, ttlSeconds]
+  );
+}
+
+/**
+ * Release the quota reservation of a file
+ *
+ * Called when an upload completes (its size then counts as real usage) or is
+ * rejected. Returns false if the file had no reservation left.
+ */
+export async function releaseUploadReservation(client: PoolClient, fileId: string): Promise<boolean> {
+  const result = await client.query('DELETE FROM quota_reservations WHERE file_id = $1', [fileId]);
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Release expired quota reservations
+ *
+ * The abandoned uploads themselves stay pending until the reaper removes them,
+ * but can no longer be completed.
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const result = await query(
+    'DELETE FROM quota_reservations WHERE expires_at <= NOW() RETURNING file_id, user_id, reserved_bytes'
+  );
+
+  for (const reservation of result.rows) {
+    await auditLog(
+      reservation.user_id,
+      'QUOTA_RESERVATION_EXPIRED',
+      'file',
+      reservation.file_id,
+      { reservedBytes: parseInt(reservation.reserved_bytes, 10) }
+    );
+  }
+
+  if (result.rows.length > 0) {
+    logger.info(`Released ${result.rows.length} expired quota reservations`);
+  }
+
+  return result.rows.length;
+}
+
+// Actual usage of a user, computed from the files and quota_reservations tables
+const ACTUAL_USAGE_QUERY = `
+  SELECT
+    u.id as user_id,
+    (SELECT COALESCE(SUM(size_bytes), 0) FROM files
+      WHERE owner_id = u.id AND status NOT IN ('pending', 'rejected', 'deleting')) as used_bytes,
+    (SELECT COUNT(*) FROM files
+      WHERE owner_id = u.id AND status NOT IN ('pending', 'rejected', 'deleting'))::int as file_count,
+    (SELECT COALESCE(SUM(reserved_bytes), 0) FROM quota_reservations
+      WHERE user_id = u.id) as reserved_bytes,
+    (SELECT COUNT(*) FROM quota_reservations
+      WHERE user_id = u.id)::int as reserved_files
+  FROM users u`;
+
+/**
+ * Recompute the usage counters of every user and correct any drift
+ */
+export async function reconcileUserUsage(): Promise<number> {
+  // Find users whose counters look out of date
+  const candidates = await query(
+    `SELECT a.user_id
+     FROM (${ACTUAL_USAGE_QUERY}) a
+     LEFT JOIN user_usage uu ON uu.user_id = a.user_id
+     WHERE uu.user_id IS NULL
+       OR uu.used_bytes != a.used_bytes
+       OR uu.file_count != a.file_count
+       OR uu.reserved_bytes != a.reserved_bytes
+       OR uu.reserved_files != a.reserved_files`
+  );
+
+  let corrected = 0;
+
+  for (const { user_id: userId } of candidates.rows) {
+    const client = await getClient();
+    let drift: Record<string, { recorded: number; actual: number }> | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        'INSERT INTO user_usage (user_id) VALUES ($1) ON CONFLICT DO NOTHING',
+        [userId]
+      );
+
+      // Recompute under lock so that concurrent uploads don't show up as drift
+      const recordedResult = await client.query(
+        'SELECT used_bytes, file_count, reserved_bytes, reserved_files FROM user_usage WHERE user_id = $1 FOR UPDATE',
+        [userId]
+      );
+      const actualResult = await client.query(`${ACTUAL_USAGE_QUERY} WHERE u.id = $1`, [userId]);
+
+      const recorded = recordedResult.rows[0];
+      const actual = actualResult.rows[0];
+
+      for (const field of ['used_bytes', 'file_count', 'reserved_bytes', 'reserved_files']) {
+        const recordedValue = Number(recorded[field]);
+        const actualValue = Number(actual[field]);
+
+        if (recordedValue !== actualValue) {
+          drift = drift || {};
+          drift[field] = { recorded: recordedValue, actual: actualValue };
+        }
+      }
+
+      if (drift) {
+        await client.query(
+          `UPDATE user_usage
+           SET used_bytes = $1, file_count = $2, reserved_bytes = $3, reserved_files = $4, updated_at = NOW()
+           WHERE user_id = $5`,
+          [actual.used_bytes, actual.file_count, actual.reserved_bytes, actual.reserved_files, userId]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error(`Error reconciling usage for user ${userId}:`, error);
+      continue;
+    } finally {
+      client.release();
+    }
+
+    if (drift) {
+      corrected += 1;
+      logger.warn({ userId, drift }, `Corrected usage drift for user ${userId}`);
+
+      await auditLog(
+        null,
+        'USER_USAGE_DRIFT_CORRECTED',
+        'user',
+        userId,
+        { drift }
+      );
+    }
+  }
+
+  if (corrected > 0) {
+    logger.warn(`Usage reconciliation corrected ${corrected} users`);
+  }
+
+  return corrected;
+}
@@ -0,0 +1,244 @@
+import { query } from './db';
+import { abortMultipartUpload, deleteObjects, listObjects } from './storage';
+import { enqueueFileDeletion } from './fileDeletion';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+// Prefix under which derived renditions of a stored object live
+const THUMBNAIL_PREFIX = 'thumbnails/';
+
+// Prefix under which the tails of tus uploads live, as <storage key>/<offset>
+const TUS_TAIL_PREFIX = 'tus-tails/';
+
+/**
+ * Summary of a reaper run
+ */
+export interface ReaperSummary {
+  expiredUploads: number;
+  deletedObjects: number;
+  expiredRejections: number;
+  orphanedObjects: number;
+  requeuedDeletions: number;
+}
+
+/**
+ * Expire pending uploads that were never completed and delete their objects
+ */
+async function expireAbandonedUploads(): Promise<{ expiredUploads: number; deletedObjects: number }> {
+  let expiredUploads = 0;
+  let deletedObjects = 0;
+
+  for (;;) {
+    // Rows still holding a live reservation can be resumed and are left alone
+    const result = await query(
+      `WITH expired AS (
+        DELETE FROM files
+        WHERE id IN (
+          SELECT f.id FROM files f
+          WHERE f.status = 'pending'
+            AND f.created_at < NOW() - $1 * INTERVAL '1 second'
+            AND NOT EXISTS (
+              SELECT 1 FROM quota_reservations r WHERE r.file_id = f.id AND r.expires_at > NOW()
+            )
+          LIMIT $2
+        )
+        AND status = 'pending'
+        RETURNING id, owner_id, original_name, storage_key
+      )
+      SELECT e.*, m.upload_id as multipart_upload_id, t.upload_id as tus_upload_id
+      FROM expired e
+      LEFT JOIN multipart_uploads m ON m.file_id = e.id
+      LEFT JOIN tus_uploads t ON t.file_id = e.id`,
+      [config.reaper.pendingMaxAge, config.reaper.batchSize]
+    );
+
+    if (result.rows.length === 0) {
+      break;
+    }
+
+    for (const file of result.rows) {
+      const uploadId = file.multipart_upload_id || file.tus_upload_id;
+
+      // Discard parts of unfinished multipart uploads
+      if (uploadId) {
+        await abortMultipartUpload(file.storage_key, uploadId).catch((error) => {
+          logger.warn(`Error aborting multipart upload for expired file ${file.id}:`, error);
+        });
+      }
+
+      await auditLog(
+        file.owner_id,
+        'FILE_UPLOAD_EXPIRED',
+        'file',
+        file.id,
+        { fileName: file.original_name }
+      );
+    }
+
+    // A presigned PUT may still have stored an object
+    const keys = result.rows.map((file) => file.storage_key as string);
+    await deleteObjects(keys);
+
+    expiredUploads += result.rows.length;
+    deletedObjects += keys.length;
+
+    if (result.rows.length < config.reaper.batchSize) {
+      break;
+    }
+  }
+
+  return { expiredUploads, deletedObjects };
+}
+
+/**
+ * Delete rejected files once their rejection has been on record for a while
+ *
+ * Rejected files count toward no quota, so nothing else reclaims their objects.
+ * Files with revisions are left alone, as deleting them would detach the revisions.
+ */
+async function expireRejectedFiles(): Promise<number> {
+  let expiredRejections = 0;
+
+  for (;;) {
+    const result = await query(
+      `UPDATE files SET status = 'deleting', updated_at = NOW()
+       WHERE id IN (
+         SELECT f.id FROM files f
+         WHERE f.status = 'rejected'
+           AND f.updated_at < NOW() - $1 * INTERVAL '1 second'
+           AND NOT EXISTS (
+             SELECT 1 FROM files v WHERE v.parent_file_id = f.id AND v.status != 'deleting'
+           )
+         LIMIT $2
+       )
+       AND status = 'rejected'
+       RETURNING id, owner_id, original_name`,
+      [config.reaper.rejectedMaxAge, config.reaper.batchSize]
+    );
+
+    for (const file of result.rows) {
+      await enqueueFileDeletion(file.id);
+
+      await auditLog(
+        file.owner_id,
+        'FILE_REJECTION_EXPIRED',
+        'file',
+        file.id,
+        { fileName: file.original_name }
+      );
+    }
+
+    expiredRejections += result.rows.length;
+
+    if (result.rows.length < config.reaper.batchSize) {
+      break;
+    }
+  }
+
+  return expiredRejections;
+}
+
+/**
+ * Delete bucket objects that are not referenced by any file
+ */
+async function sweepOrphanedObjects(): Promise<number> {
+  // Objects younger than the grace period may belong to an upload in flight
+  const cutoff = new Date(Date.now() - config.reaper.orphanGracePeriod * 1000);
+  let orphanedObjects = 0;
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await listObjects(continuationToken);
+    continuationToken = page.nextContinuationToken;
+
+    const candidates = page.objects
+      .filter((object) => object.lastModified < cutoff)
+      .map((object) => ({
+        key: object.key,
+        storageKey: object.key.startsWith(THUMBNAIL_PREFIX)
+          ? object.key.slice(THUMBNAIL_PREFIX.length)
+          : object.key,
+      }));
+
+    if (candidates.length === 0) {
+      continue;
+    }
+
+    // Only the tail at the committed offset of an upload in progress is live
+    const referencedResult = await query(
+      `SELECT storage_key FROM files WHERE storage_key = ANY($1)
+       UNION
+       SELECT storage_key FROM file_renditions WHERE storage_key = ANY($1)
+       UNION
+       SELECT storage_key FROM (
+         SELECT $2::text || f.storage_key || '/' || t.upload_offset as storage_key
+         FROM tus_uploads t JOIN files f ON f.id = t.file_id
+       ) tails WHERE storage_key = ANY($1)`,
+      [candidates.map((candidate) => candidate.storageKey), TUS_TAIL_PREFIX]
+    );
+    const referenced = new Set(referencedResult.rows.map((row) => row.storage_key));
+
+    const orphans = candidates
+      .filter((candidate) => !referenced.has(candidate.storageKey))
+      .map((candidate) => candidate.key);
+
+    if (orphans.length > 0) {
+      logger.info(`Deleting ${orphans.length} orphaned objects`);
+      await deleteObjects(orphans);
+      orphanedObjects += orphans.length;
+    }
+  } while (continuationToken);
+
+  return orphanedObjects;
+}
+
+/**
+ * Re-queue deletions whose storage removal ran out of retries
+ */
+async function requeueStuckDeletions(): Promise<number> {
+  const result = await query(
+    `SELECT id FROM files
+     WHERE status = 'deleting' AND updated_at < NOW() - $1 * INTERVAL '1 millisecond'
+     LIMIT $2`,
+    [config.reaper.interval, config.reaper.batchSize]
+  );
+
+  for (const file of result.rows) {
+    await enqueueFileDeletion(file.id);
+  }
+
+  return result.rows.length;
+}
+
+/**
+ * Reap abandoned uploads and orphaned storage objects
+ */
+export async function runReaper(): Promise<ReaperSummary> {
+  logger.info('Starting storage reaper');
+
+  const { expiredUploads, deletedObjects } = await expireAbandonedUploads();
+  const expiredRejections = await expireRejectedFiles();
+  const orphanedObjects = await sweepOrphanedObjects();
+  const requeuedDeletions = await requeueStuckDeletions();
+
+  const summary: ReaperSummary = {
+    expiredUploads,
+    deletedObjects,
+    expiredRejections,
+    orphanedObjects,
+    requeuedDeletions,
+  };
+
+  logger.info(summary, 'Storage reaper finished');
+
+  await auditLog(
+    null,
+    'STORAGE_REAPER_RUN',
+    'system',
+    null,
+    { ...summary }
+  );
+
+  return summary;
+}
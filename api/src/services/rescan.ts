@@ -0,0 +1,213 @@
+import { query, getClient } from './db';
+import { getObjectStream } from './storage';
+import { getFileEncryption } from './encryption';
+import { scanFile, ScannerUnavailableError } from './scanners';
+import { getHashListEntry, getHashListReport } from './hashLists';
+import { recordScanResults } from './scanResults';
+import { notifyUser } from './notifications';
+import { fileRescanQueue } from '../queue/fileRescan';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+/**
+ * Clean files to re-scan
+ */
+export interface RescanFilter {
+  /** Uploaded at or after */
+  from?: Date;
+  /** Uploaded before */
+  to?: Date;
+  /** Detected MIME type, either exact or a "type/*" wildcard */
+  mimeType?: string;
+  userId?: string;
+}
+
+/**
+ * Queue re-scans of the clean files matching a filter
+ *
+ * Earlier revisions are included since they can be restored. A file already
+ * waiting for a re-scan is not queued twice.
+ */
+export async function enqueueRescans(filter: RescanFilter, requestedBy: string | null): Promise<number> {
+  const mimePattern = filter.mimeType ? filter.mimeType.replace(/\*$/, '%') : null;
+  let lastId: string | null = null;
+  let queued = 0;
+
+  // Walk the matching files in ID order so that large ranges are queued in batches
+  for (;;) {
+    const result: { rows: { id: string }[] } = await query(
+      `SELECT id FROM files
+       WHERE status = $1
+         AND ($2::timestamptz IS NULL OR created_at >= $2)
+         AND ($3::timestamptz IS NULL OR created_at < $3)
+         AND ($4::text IS NULL OR detected_mime LIKE $4)
+         AND ($5::uuid IS NULL OR owner_id = $5)
+         AND ($6::uuid IS NULL OR id > $6)
+       ORDER BY id
+       LIMIT $7`,
+      [
+        'clean',
+        filter.from || null,
+        filter.to || null,
+        mimePattern,
+        filter.userId || null,
+        lastId,
+        config.rescan.batchSize,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      break;
+    }
+
+    await fileRescanQueue.addBulk(result.rows.map((row) => ({
+      name: `rescan-${row.id}`,
+      data: { fileId: row.id },
+      opts: { jobId: `rescan-${row.id}` },
+    })));
+
+    queued += result.rows.length;
+    lastId = result.rows[result.rows.length - 1].id;
+  }
+
+  logger.info(`Queued re-scans of ${queued} files`);
+
+  await auditLog(
+    requestedBy,
+    'FILE_RESCAN_REQUESTED',
+    'file',
+    null,
+    { ...filter, queued }
+  );
+
+  return queued;
+}
+
+/**
+ * Queue re-scans of the files uploaded within the configured window
+ */
+export async function enqueueScheduledRescans(): Promise<number> {
+  return enqueueRescans(
+    { from: new Date(Date.now() - config.rescan.lookbackDays * 24 * 60 * 60 * 1000) },
+    null
+  );
+}
+
+/**
+ * Quarantine a file found infected by a re-scan
+ *
+ * Other clean files with the same content are quarantined with it, active
+ * shares of the quarantined files are expired and their owners notified.
+ */
+async function quarantineRescannedFile(file: any, reason: string): Promise<void> {
+  const client = await getClient();
+  let quarantined: { id: string; owner_id: string; sanitized_name: string }[] = [];
+  let sharesDisabled = 0;
+
+  try {
+    await client.query('BEGIN');
+
+    // Later uploads linked to the same blob inherit the new verdict
+    await client.query(
+      'UPDATE blobs SET status = $1, reason = $2 WHERE sha256 = $3 AND status = $4',
+      ['quarantined', reason, file.sha256, 'clean']
+    );
+
+    const filesResult = await client.query(
+      `UPDATE files SET status = $1, reason = $2, updated_at = NOW()
+       WHERE (id = $3 OR sha256 = $4) AND status = $5
+       RETURNING id, owner_id, sanitized_name`,
+      ['quarantined', reason, file.id, file.sha256, 'clean']
+    );
+    quarantined = filesResult.rows;
+
+    const sharesResult = await client.query(
+      'UPDATE file_shares SET expires_at = NOW() WHERE file_id = ANY($1) AND expires_at > NOW()',
+      [quarantined.map((row) => row.id)]
+    );
+    sharesDisabled = sharesResult.rowCount || 0;
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  logger.warn(`Quarantined ${quarantined.length} files after re-scan of file ${file.id}: ${reason}`);
+
+  for (const row of quarantined) {
+    await auditLog(
+      null,
+      'FILE_QUARANTINED',
+      'file',
+      row.id,
+      { reason, rescan: true, sha256: file.sha256, ownerId: row.owner_id, sharesDisabled }
+    );
+
+    await notifyUser(
+      row.owner_id,
+      'file_quarantined',
+      `Your file "${row.sanitized_name}" was quarantined after a re-scan: ${reason}. Its share links have been disabled.`,
+      { fileId: row.id, reason }
+    );
+  }
+}
+
+/**
+ * Re-scan a clean file with the current scanners and signatures
+ *
+ * Files that are no longer clean, or whose hash is on the allow list, are
+ * skipped. Errors leave the file clean so that the job can be retried.
+ */
+export async function rescanFile(fileId: string): Promise<'clean' | 'quarantined' | 'skipped'> {
+  const fileResult = await query('SELECT * FROM files WHERE id = $1 AND status = $2', [fileId, 'clean']);
+
+  if (fileResult.rowCount === 0) {
+    logger.info(`Skipping re-scan of file ${fileId}, it is no longer clean`);
+    return 'skipped';
+  }
+
+  const file = fileResult.rows[0];
+  const hashListEntry = await getHashListEntry(file.sha256);
+
+  if (hashListEntry?.list === 'allow') {
+    return 'skipped';
+  }
+
+  const encryption = getFileEncryption(file);
+  const scanReport = hashListEntry ? getHashListReport(hashListEntry) : await scanFile({
+    fileId,
+    ownerId: file.owner_id,
+    fileName: file.original_name,
+    size: parseInt(file.size_bytes, 10),
+    sha256: file.sha256,
+    detectedMime: file.detected_mime || 'application/octet-stream',
+    declaredMime: file.declared_mime,
+    openStream: () => getObjectStream(file.storage_key, undefined, encryption),
+  });
+
+  await recordScanResults(fileId, scanReport.results);
+
+  if (scanReport.status === 'failed') {
+    throw new Error(scanReport.reason || 'Scan failed');
+  }
+
+  if (scanReport.status === 'unavailable') {
+    throw new ScannerUnavailableError(scanReport.reason || 'Scanner unavailable');
+  }
+
+  if (scanReport.status === 'quarantined') {
+    await quarantineRescannedFile(file, scanReport.reason || 'Detected by re-scan');
+    return 'quarantined';
+  }
+
+  // Active content found by newer scanners rules out inline preview from now on
+  if (!file.active_content && scanReport.results.some((result) => result.activeContent)) {
+    await query('UPDATE files SET active_content = TRUE WHERE id = $1', [fileId]);
+  }
+
+  return 'clean';
+}
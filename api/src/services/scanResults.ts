@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import { query } from './db';
+import { ScanFinding, ScannerRunResult } from './scanners';
+
+/**
+ * Stored result of one scanner run against a file
+ *
+ * Rows written by the same processing run share a scan ID.
+ */
+export interface ScanResultRecord {
+  id: string;
+  file_id: string;
+  scan_id: string;
+  position: number;
+  scanner: string;
+  engine_version: string | null;
+  signature_version: string | null;
+  verdict: 'clean' | 'infected' | 'suspicious' | 'encrypted' | 'error' | 'unavailable';
+  findings: ScanFinding[];
+  duration_ms: number;
+  error: string | null;
+  created_at: Date;
+}
+
+/**
+ * Store the results of a scanner chain run against a file
+ */
+export async function recordScanResults(fileId: string, results: ScannerRunResult[]): Promise<void> {
+  if (results.length === 0) {
+    return;
+  }
+
+  await query(
+    `INSERT INTO scan_results
+       (file_id, scan_id, position, scanner, engine_version, signature_version, verdict, findings, duration_ms, error)
+     SELECT $1, $2, r.position, r.scanner, r.engine_version, r.signature_version, r.verdict, r.findings, r.duration_ms, r.error
+     FROM jsonb_to_recordset($3::jsonb) AS r(
+       position INTEGER, scanner TEXT, engine_version TEXT, signature_version TEXT,
+       verdict TEXT, findings JSONB, duration_ms INTEGER, error TEXT
+     )`,
+    [
+      fileId,
+      randomUUID(),
+      JSON.stringify(results.map((result, position) => ({
+        position,
+        scanner: result.scanner,
+        engine_version: result.engineVersion,
+        signature_version: result.signatureVersion,
+        verdict: result.verdict,
+        findings: result.findings,
+        duration_ms: result.durationMs,
+        error: result.error,
+      }))),
+    ]
+  );
+}
+
+/**
+ * Give a file linked to a blob the latest scan of another file sharing that blob
+ *
+ * The copied rows keep the engine and signature versions of the original scan.
+ */
+export async function copyBlobScanResults(fileId: string, sha256: string): Promise<void> {
+  await query(
+    `INSERT INTO scan_results
+       (file_id, scan_id, position, scanner, engine_version, signature_version, verdict, findings, duration_ms, error)
+     SELECT $1, $2, s.position, s.scanner, s.engine_version, s.signature_version, s.verdict, s.findings, s.duration_ms, s.error
+     FROM scan_results s
+     WHERE s.scan_id = (
+       SELECT r.scan_id FROM scan_results r
+       JOIN files f ON f.id = r.file_id
+       WHERE f.blob_sha256 = $3 AND f.id != $1
+       ORDER BY r.created_at DESC LIMIT 1
+     )`,
+    [fileId, randomUUID(), sha256]
+  );
+}
+
+/**
+ * Get the scan results of a file, newest scan first
+ *
+ * Admins may read the results of any file, including earlier revisions.
+ */
+export async function getFileScanResults(
+  fileId: string,
+  userId: string,
+  isAdmin: boolean
+): Promise<ScanResultRecord[]> {
+  const fileResult = await query(
+    'SELECT owner_id, parent_file_id FROM files WHERE id = $1 AND status != $2',
+    [fileId, 'deleting']
+  );
+  const file = fileResult.rows[0];
+
+  if (!file || (!isAdmin && (file.owner_id !== userId || file.parent_file_id))) {
+    throw new Error('File not found or access denied');
+  }
+
+  const result = await query(
+    'SELECT * FROM scan_results WHERE file_id = $1 ORDER BY created_at DESC, position',
+    [fileId]
+  );
+  return result.rows;
+}
@@ -0,0 +1,114 @@
+import { query } from './db';
+import { notifyUser } from './notifications';
+import { fileProcessingQueue } from '../queue/fileProcessing';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { auditLog } from './audit';
+
+// Admins are alerted at most once per interval while scanners stay unavailable
+const ALERT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Alert admins that files are waiting for an unavailable scanner
+ */
+async function alertAdmins(reason: string): Promise<void> {
+  const recentResult = await query(
+    `SELECT 1 FROM notifications
+     WHERE type = $1 AND created_at > NOW() - $2 * INTERVAL '1 millisecond'
+     LIMIT 1`,
+    ['scanner_unavailable', ALERT_INTERVAL_MS]
+  );
+
+  if ((recentResult.rowCount || 0) > 0) {
+    return;
+  }
+
+  const pendingResult = await query('SELECT COUNT(*) FROM files WHERE status = $1', ['scan_pending']);
+  const pendingFiles = parseInt(pendingResult.rows[0].count, 10);
+  const adminsResult = await query('SELECT id FROM users WHERE role = $1', ['admin']);
+
+  logger.error(`Scanner unavailable with ${pendingFiles} files waiting for a scan: ${reason}`);
+
+  for (const admin of adminsResult.rows) {
+    await notifyUser(
+      admin.id,
+      'scanner_unavailable',
+      `Files cannot be scanned: ${reason}. ${pendingFiles} files are waiting for a scan.`,
+      { reason, pendingFiles }
+    );
+  }
+
+  await auditLog(null, 'SCANNER_UNAVAILABLE', 'scanner', null, { reason, pendingFiles });
+}
+
+/**
+ * Hold a file whose scan could not run because a scanner was unavailable
+ *
+ * The file waits in scan_pending and is queued again with exponential backoff.
+ * Once the retries run out, the configured policy either releases the file
+ * with the verdicts of the scanners that did run (fail-open) or quarantines it
+ * for an admin to review (fail-closed).
+ */
+export async function deferFileScan(fileId: string, reason: string): Promise<void> {
+  const result = await query(
+    `UPDATE files SET status = $1, reason = $2, scan_attempts = scan_attempts + 1, updated_at = NOW()
+     WHERE id = $3 AND status != $4
+     RETURNING owner_id, sanitized_name, scan_attempts`,
+    ['scan_pending', `Waiting for scan: ${reason}`, fileId, 'deleting']
+  );
+
+  if (result.rowCount === 0) {
+    return;
+  }
+
+  const file = result.rows[0];
+  const attempts: number = file.scan_attempts;
+
+  if (attempts >= config.antivirus.unavailableAlertThreshold) {
+    await alertAdmins(reason);
+  }
+
+  if (attempts <= config.antivirus.unavailableRetries) {
+    const delay = Math.min(
+      config.antivirus.unavailableRetryDelay * 2 ** (attempts - 1),
+      config.antivirus.unavailableRetryMaxDelay
+    );
+
+    logger.warn(`Deferring scan of file ${fileId} for ${delay}ms (attempt ${attempts}): ${reason}`);
+    await fileProcessingQueue.add(`file-${fileId}`, { fileId }, { delay, attempts: 3 });
+    return;
+  }
+
+  if (config.antivirus.unavailablePolicy === 'fail-open') {
+    logger.warn(`Scanners still unavailable for file ${fileId}, processing it without them (fail-open)`);
+    await fileProcessingQueue.add(`file-${fileId}`, { fileId, failOpen: true }, { attempts: 3 });
+    return;
+  }
+
+  const quarantineReason = `Not scanned: scanner unavailable after ${attempts} attempts (${reason})`;
+  const quarantineResult = await query(
+    'UPDATE files SET status = $1, reason = $2, updated_at = NOW(), scanned_at = NOW() WHERE id = $3 AND status = $4',
+    ['quarantined', quarantineReason, fileId, 'scan_pending']
+  );
+
+  if (quarantineResult.rowCount === 0) {
+    return;
+  }
+
+  logger.warn(`Quarantining unscanned file ${fileId} (fail-closed): ${reason}`);
+
+  await auditLog(
+    file.owner_id,
+    'FILE_QUARANTINED',
+    'file',
+    fileId,
+    { reason: quarantineReason, scannerUnavailable: true }
+  );
+
+  await notifyUser(
+    file.owner_id,
+    'file_scan_failed',
+    `Your file "${file.sanitized_name}" could not be scanned and was quarantined. An admin can release it.`,
+    { fileId, reason: quarantineReason }
+  );
+}
@@ -0,0 +1,537 @@
+import { randomUUID } from 'crypto';
+import { execFile, ExecFileException, spawn } from 'child_process';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import { once } from 'events';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { fromBuffer } from 'file-type';
+import mime from 'mime-types';
+import { query } from '../db';
+import config from '../../config';
+import { withTempFile } from '../../utils/tempFile';
+import { dangerousFileTypes } from './fileType';
+import { ScanFinding, Scanner, ScannerUnavailableError } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Archive formats that are listed and inspected
+const ARCHIVE_TYPES = [
+  'application/zip',
+  'application/x-tar',
+  'application/gzip',
+  'application/x-7z-compressed',
+];
+
+// Bytes needed by file-type to detect any supported format
+const SNIFF_HEADER_SIZE = 4100;
+
+// A password that is never right, so that 7z fails on encrypted content instead of prompting
+const NO_PASSWORD = '-p-';
+
+/**
+ * File listed in an archive
+ */
+export interface ArchiveEntry {
+  path: string;
+  /** Path of the nested archive holding the entry, null at the top level */
+  container: string | null;
+  depth: number;
+  size: number | null;
+  packedSize: number | null;
+  encrypted: boolean;
+  mime: string | null;
+}
+
+/**
+ * Entries of an archive and of the archives nested in it
+ */
+export interface ArchiveManifest {
+  type: string | null;
+  entries: ArchiveEntry[];
+  /** Inspection stopped at a limit, so entries may be missing */
+  truncated: boolean;
+}
+
+/**
+ * State shared by the archives of one upload
+ */
+interface Inspection {
+  manifest: ArchiveManifest;
+  findings: ScanFinding[];
+  expandedBytes: number;
+  encrypted: boolean;
+  engineVersion: string | null;
+}
+
+/**
+ * Entry as listed by 7z
+ */
+interface ListedEntry {
+  path: string;
+  size: number | null;
+  packedSize: number | null;
+  encrypted: boolean;
+}
+
+/**
+ * Whether a MIME type is an archive format that is inspected
+ */
+export function isArchiveType(mimeType: string | null): boolean {
+  return !!mimeType && ARCHIVE_TYPES.includes(mimeType);
+}
+
+/**
+ * Parse the technical listing (7z l -slt) of an archive
+ *
+ * The archive properties come first, then one block of "Key = Value" lines per
+ * entry after a line of dashes.
+ */
+function parseListing(output: string): { type: string | null; version: string | null; entries: ListedEntry[] } {
+  const [header, body = ''] = output.split(/^-{10}$/m);
+  const entries: ListedEntry[] = [];
+
+  for (const block of body.split(/\r?\n\s*\r?\n/)) {
+    const fields = new Map<string, string>();
+
+    for (const line of block.split(/\r?\n/)) {
+      const separator = line.indexOf(' = ');
+      if (separator > 0) {
+        fields.set(line.slice(0, separator), line.slice(separator + 3));
+      }
+    }
+
+    const path = fields.get('Path');
+    if (!path || fields.get('Folder') === '+' || (fields.get('Attributes') || '').startsWith('D')) {
+      continue;
+    }
+
+    entries.push({
+      path,
+      size: fields.get('Size') ? parseInt(fields.get('Size') as string, 10) : null,
+      packedSize: fields.get('Packed Size') ? parseInt(fields.get('Packed Size') as string, 10) : null,
+      encrypted: fields.get('Encrypted') === '+',
+    });
+  }
+
+  return {
+    type: /^Type = (.*)$/m.exec(header)?.[1] || null,
+    version: /^7-Zip.*?\s(\d+\.\d+)/m.exec(header)?.[1] || null,
+    entries,
+  };
+}
+
+/**
+ * Error of a 7z run, with the output it produced
+ */
+type SevenZipError = ExecFileException & { stdout?: string; stderr?: string };
+
+/**
+ * Whether 7z failed because the archive or its headers are encrypted
+ */
+function isPasswordError(error: SevenZipError): boolean {
+  return /wrong password|encrypted archive/i.test(`${error.stdout || ''}${error.stderr || ''}`);
+}
+
+/**
+ * Entry read during the extraction pass
+ */
+interface ExtractedEntry {
+  listed: ListedEntry;
+  mime: string | null;
+  /** Temporary copy of a nested archive, inspected once the pass is done */
+  nestedPath: string | null;
+}
+
+/**
+ * Result of the extraction pass over an archive
+ */
+interface Extraction {
+  entries: ExtractedEntry[];
+  expandedBytes: number;
+  /** Extraction was stopped because the entries expand beyond the budget */
+  overBudget: boolean;
+  /** 7z failed or wrote other sizes than listed, so entries may be cut wrongly */
+  failed: boolean;
+}
+
+/**
+ * Entry being cut from the extraction output
+ */
+interface EntryCut {
+  remaining: number;
+  header: Buffer[];
+  headerLength: number;
+  sniffed: boolean;
+  mime: string | null;
+  copy: { path: string; stream: WriteStream } | null;
+}
+
+/**
+ * Extract the given entries of an archive in a single 7z run
+ *
+ * 7z writes the entries to stdout back to back in archive order, so they are
+ * cut at their listed sizes, the last one taking whatever follows. The header
+ * of each entry is sniffed for its type and entries accepted by `keep` are
+ * copied to temporary files. Extraction stops once the bytes actually written
+ * exceed the budget.
+ */
+async function extractEntries(
+  archivePath: string,
+  listed: ListedEntry[],
+  fileArgs: string[],
+  budget: number,
+  keep: (mimeType: string | null) => boolean
+): Promise<Extraction> {
+  const extraction: Extraction = { entries: [], expandedBytes: 0, overBudget: false, failed: false };
+
+  if (listed.length === 0) {
+    return extraction;
+  }
+
+  const child = spawn(
+    config.antivirus.sevenZipPath,
+    ['x', '-so', '-spd', '-bd', '-scsUTF-8', NO_PASSWORD, '--', archivePath, ...fileArgs],
+    { stdio: ['ignore', 'pipe', 'ignore'] }
+  );
+
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code));
+  });
+
+  // Read errors surface through the stream; do not report the exit as unhandled before then
+  exited.catch(() => undefined);
+
+  const startCut = (index: number): EntryCut => ({
+    remaining: listed[index].size || 0,
+    header: [],
+    headerLength: 0,
+    sniffed: false,
+    mime: null,
+    copy: null,
+  });
+
+  let index = 0;
+  let cut = startCut(0);
+
+  const write = async (data: Buffer) => {
+    if (cut.copy && !cut.copy.stream.write(data)) {
+      await once(cut.copy.stream, 'drain');
+    }
+  };
+
+  const sniff = async () => {
+    const header = Buffer.concat(cut.header, cut.headerLength);
+    cut.sniffed = true;
+    cut.mime = (await fromBuffer(header.subarray(0, SNIFF_HEADER_SIZE)))?.mime || mime.lookup(listed[index].path) || null;
+
+    if (keep(cut.mime)) {
+      const copyPath = path.join(os.tmpdir(), `webupload-${randomUUID()}`);
+      cut.copy = { path: copyPath, stream: createWriteStream(copyPath, { mode: 0o600 }) };
+      await write(header);
+    }
+  };
+
+  const feed = async (data: Buffer) => {
+    if (cut.sniffed) {
+      await write(data);
+      return;
+    }
+
+    cut.header.push(data);
+    cut.headerLength += data.length;
+    if (cut.headerLength >= SNIFF_HEADER_SIZE) {
+      await sniff();
+    }
+  };
+
+  const finishEntry = async () => {
+    if (!cut.sniffed) {
+      await sniff();
+    }
+
+    const { copy } = cut;
+    cut.copy = null;
+    if (copy) {
+      copy.stream.end();
+      await once(copy.stream, 'finish');
+    }
+
+    extraction.entries.push({ listed: listed[index], mime: cut.mime, nestedPath: copy?.path || null });
+    index += 1;
+    if (index < listed.length) {
+      cut = startCut(index);
+    }
+  };
+
+  // Entries are cut at their listed size, except the last which runs to the end
+  const finishEmptyEntries = async () => {
+    while (index < listed.length - 1 && cut.remaining === 0) {
+      await finishEntry();
+    }
+  };
+
+  try {
+    await finishEmptyEntries();
+
+    for await (const chunk of child.stdout as AsyncIterable<Buffer>) {
+      extraction.expandedBytes += chunk.length;
+
+      if (extraction.expandedBytes > budget) {
+        extraction.overBudget = true;
+        child.kill();
+        break;
+      }
+
+      let offset = 0;
+      while (offset < chunk.length) {
+        const length = index === listed.length - 1
+          ? chunk.length - offset
+          : Math.min(cut.remaining, chunk.length - offset);
+
+        await feed(chunk.subarray(offset, offset + length));
+        offset += length;
+        cut.remaining -= length;
+        await finishEmptyEntries();
+      }
+    }
+
+    if (!extraction.overBudget) {
+      await finishEntry();
+    }
+
+    const code = await exited;
+    extraction.failed = !extraction.overBudget && (code !== 0 || extraction.entries.length !== listed.length);
+  } catch (error) {
+    child.kill();
+    await removeCopies(extraction);
+    throw error;
+  } finally {
+    // The entry cut off by a failure or the budget is incomplete
+    if (cut.copy) {
+      cut.copy.stream.destroy();
+      await fs.rm(cut.copy.path, { force: true });
+    }
+  }
+
+  return extraction;
+}
+
+/**
+ * Remove the temporary copies of nested archives
+ */
+async function removeCopies(extraction: Extraction): Promise<void> {
+  for (const entry of extraction.entries) {
+    if (entry.nestedPath) {
+      await fs.rm(entry.nestedPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Stop inspecting an archive that is too large or too deep to expand safely
+ */
+function exceedLimit(inspection: Inspection, detail: string): void {
+  inspection.manifest.truncated = true;
+  inspection.findings.push({ name: 'archive-limit-exceeded', detail });
+}
+
+/**
+ * List an archive and inspect its entries, recursing into nested archives
+ */
+async function inspectArchive(
+  archivePath: string,
+  container: string | null,
+  depth: number,
+  inspection: Inspection
+): Promise<void> {
+  const where = container || 'archive';
+  let listing: ReturnType<typeof parseListing>;
+
+  try {
+    const { stdout } = await execFileAsync(
+      config.antivirus.sevenZipPath,
+      ['l', '-slt', NO_PASSWORD, '--', archivePath],
+      { maxBuffer: 16 * 1024 * 1024 }
+    );
+    listing = parseListing(stdout);
+  } catch (error) {
+    if ((error as SevenZipError).code === 'ENOENT') {
+      throw new ScannerUnavailableError(`7z not found: ${(error as Error).message}`);
+    }
+
+    // Encrypted headers hide the entries themselves
+    if (isPasswordError(error as SevenZipError)) {
+      inspection.encrypted = true;
+      inspection.findings.push({ name: 'password-protected', detail: where });
+      return;
+    }
+
+    inspection.findings.push({ name: 'unreadable-archive', detail: where });
+    return;
+  }
+
+  if (depth === 0) {
+    inspection.manifest.type = listing.type;
+    inspection.engineVersion = listing.version ? `7-Zip ${listing.version}` : null;
+  }
+
+  const { size: archiveSize } = await fs.stat(archivePath);
+  const listedBytes = listing.entries.reduce((total, entry) => total + (entry.size || 0), 0);
+  const ratioLimit = archiveSize * config.antivirus.archiveMaxRatio;
+  const sizeLimit = config.antivirus.archiveMaxExpandedSize - inspection.expandedBytes;
+
+  if (inspection.manifest.entries.length + listing.entries.length > config.antivirus.archiveMaxEntries) {
+    exceedLimit(inspection, `${where} has more than ${config.antivirus.archiveMaxEntries} entries`);
+    return;
+  }
+
+  // Listed sizes can understate what an entry expands to, so they only rule
+  // archives out early; the extraction pass counts the bytes actually written
+  if (archiveSize > 0 && listedBytes > ratioLimit) {
+    exceedLimit(inspection, `${where} has a compression ratio above ${config.antivirus.archiveMaxRatio}`);
+    return;
+  }
+
+  if (listedBytes > sizeLimit) {
+    exceedLimit(inspection, `${where} expands beyond ${config.antivirus.archiveMaxExpandedSize} bytes`);
+    return;
+  }
+
+  // Encrypted entries cannot be read without the password
+  const readable = listing.entries.filter((listed) => !listed.encrypted);
+  const entryName = (listed: ListedEntry) => (container ? `${container}/${listed.path}` : listed.path);
+
+  const manifestEntries = new Map<ListedEntry, ArchiveEntry>();
+
+  for (const listed of listing.entries) {
+    const entry: ArchiveEntry = { ...listed, container, depth, mime: null };
+    manifestEntries.set(listed, entry);
+    inspection.manifest.entries.push(entry);
+
+    if (listed.encrypted) {
+      if (!inspection.encrypted) {
+        inspection.findings.push({ name: 'password-protected', detail: entryName(listed) });
+      }
+      inspection.encrypted = true;
+    }
+  }
+
+  // Sniff every readable entry in one pass, keeping copies of nested archives
+  const budget = Math.min(sizeLimit, archiveSize > 0 ? ratioLimit : sizeLimit);
+  const keep = (mimeType: string | null) => isArchiveType(mimeType) && depth + 1 <= config.antivirus.archiveMaxDepth;
+  const extract = (fileArgs: string[]) => extractEntries(archivePath, readable, fileArgs, budget, keep);
+  const extraction = readable.length === listing.entries.length
+    ? await extract([])
+    : await withTempFile(Readable.from([readable.map((listed) => listed.path).join('\n')]), (listPath) =>
+      extract([`@${listPath}`])
+    );
+
+  try {
+    inspection.expandedBytes += extraction.expandedBytes;
+
+    if (extraction.overBudget) {
+      exceedLimit(
+        inspection,
+        extraction.expandedBytes > sizeLimit
+          ? `${where} expands beyond ${config.antivirus.archiveMaxExpandedSize} bytes`
+          : `${where} has a compression ratio above ${config.antivirus.archiveMaxRatio}`
+      );
+      return;
+    }
+
+    if (extraction.failed) {
+      inspection.findings.push({ name: 'unreadable-archive', detail: where });
+    }
+
+    for (const extracted of extraction.entries) {
+      const entry = manifestEntries.get(extracted.listed) as ArchiveEntry;
+      const name = entryName(extracted.listed);
+      entry.mime = extracted.mime;
+
+      if (entry.mime && dangerousFileTypes.includes(entry.mime)) {
+        inspection.findings.push({ name: 'dangerous-file-type', detail: `${name} (${entry.mime})` });
+      }
+
+      if (!isArchiveType(entry.mime)) {
+        continue;
+      }
+
+      if (!extracted.nestedPath) {
+        exceedLimit(inspection, `${name} is nested deeper than ${config.antivirus.archiveMaxDepth} archives`);
+        return;
+      }
+
+      await inspectArchive(extracted.nestedPath, name, depth + 1, inspection);
+
+      if (inspection.manifest.truncated) {
+        return;
+      }
+    }
+  } finally {
+    await removeCopies(extraction);
+  }
+}
+
+/**
+ * Create a scanner listing archives and checking the files inside them
+ *
+ * Nested archives are inspected up to a depth, entry count, compression ratio
+ * and expanded size so that archive bombs cannot exhaust the worker. The
+ * manifest of entries is stored on the file.
+ */
+export function createArchiveScanner(): Scanner {
+  return {
+    name: 'archive',
+
+    async scan(target) {
+      if (!isArchiveType(target.detectedMime)) {
+        return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+      }
+
+      const inspection: Inspection = {
+        manifest: { type: null, entries: [], truncated: false },
+        findings: [],
+        expandedBytes: 0,
+        encrypted: false,
+        engineVersion: null,
+      };
+
+      await withTempFile(await target.openStream(), (archivePath) =>
+        inspectArchive(archivePath, null, 0, inspection)
+      );
+
+      await query('UPDATE files SET archive_manifest = $1 WHERE id = $2', [
+        JSON.stringify(inspection.manifest),
+        target.fileId,
+      ]);
+
+      const { findings, engineVersion } = inspection;
+      const problems = findings.filter((finding) => finding.name !== 'password-protected');
+
+      if (problems.length > 0) {
+        return {
+          verdict: 'suspicious',
+          findings,
+          engineVersion,
+          signatureVersion: null,
+          reason: `Archive flagged: ${problems.map((finding) => `${finding.name} ${finding.detail}`).join('; ')}`,
+        };
+      }
+
+      if (inspection.encrypted) {
+        return {
+          verdict: 'encrypted',
+          findings,
+          engineVersion,
+          signatureVersion: null,
+          reason: 'Password-protected archive cannot be inspected',
+        };
+      }
+
+      return { verdict: 'clean', findings: [], engineVersion, signatureVersion: null };
+    },
+  };
+}
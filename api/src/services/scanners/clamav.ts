@@ -0,0 +1,84 @@
+import { Readable } from 'stream';
+import NodeClam from 'clamscan';
+import config from '../../config';
+import { logger } from '../../utils/logger';
+import { Scanner, ScannerUnavailableError } from './types';
+
+// Socket errors meaning clamd could not be reached
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENOTFOUND', 'EPIPE'];
+
+/**
+ * The part of an initialized clamscan instance used here
+ */
+interface Clamscan {
+  scanStream(stream: Readable): Promise<{ isInfected: boolean | null; viruses?: string[] }>;
+  getVersion(): Promise<string>;
+}
+
+/**
+ * Error rejected by clamscan, which keeps the underlying socket error in its data
+ */
+type ClamscanError = NodeJS.ErrnoException & { data?: { err?: NodeJS.ErrnoException } };
+
+/**
+ * Whether a scan failed because clamd could not be reached
+ */
+function isConnectionError(error: ClamscanError): boolean {
+  return [error.code, error.data?.err?.code].some((code) => !!code && CONNECTION_ERROR_CODES.includes(code)) ||
+    /could not connect|timed out|ECONNREFUSED/i.test(error.message || '');
+}
+
+/**
+ * Create a scanner streaming files to clamd
+ */
+export function createClamAVScanner(): Scanner {
+  let clamscan: Promise<Clamscan> | null = null;
+
+  // Connect lazily and retry the connection on the next scan if it failed
+  const getClamscan = (): Promise<Clamscan> => {
+    if (!clamscan) {
+      clamscan = new NodeClam()
+        .init({
+          clamdscan: {
+            socket: false,
+            host: config.antivirus.host,
+            port: config.antivirus.port,
+          },
+        })
+        .catch((error: Error) => {
+          clamscan = null;
+          logger.error('Failed to initialize ClamAV:', error);
+          throw new ScannerUnavailableError('Failed to initialize virus scanner');
+        });
+    }
+    return clamscan as Promise<Clamscan>;
+  };
+
+  return {
+    name: 'clamav',
+
+    async scan(target) {
+      const scanner = await getClamscan();
+      const scanResult = await scanner.scanStream(await target.openStream()).catch((error: ClamscanError) => {
+        throw isConnectionError(error) ? new ScannerUnavailableError(`ClamAV unreachable: ${error.message}`) : error;
+      });
+      // Reported as "ClamAV <engine>/<signatures>/<signature date>"
+      const version = await scanner.getVersion().catch(() => null);
+      const [engineVersion = null, ...signatures] = version ? version.trim().split('/') : [];
+      const signatureVersion = signatures.length > 0 ? signatures.join('/') : null;
+      const viruses = scanResult.viruses || [];
+
+      if (scanResult.isInfected) {
+        return {
+          verdict: 'infected',
+          findings: viruses.map((name) => ({ name })),
+          engineVersion,
+          signatureVersion,
+          reason: `Virus detected: ${viruses.join(', ')}`,
+        };
+      }
+
+      return { verdict: 'clean', findings: [], engineVersion, signatureVersion };
+    },
+  };
+}
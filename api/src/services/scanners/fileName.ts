@@ -0,0 +1,151 @@
+import mime from 'mime-types';
+import { BIDI_CONTROL_PATTERN } from '../../utils/filename';
+import { dangerousFileTypes } from './fileType';
+import { ScanFinding, ScanResult, ScanVerdict, Scanner } from './types';
+
+// Extensions Windows runs directly, beyond those mapped to a dangerous MIME type
+const EXECUTABLE_EXTENSIONS = [
+  'exe', 'com', 'scr', 'pif', 'bat', 'cmd', 'msi', 'dll', 'cpl', 'msc', 'lnk', 'reg',
+  'vbs', 'vbe', 'js', 'jse', 'wsf', 'wsh', 'hta', 'ps1', 'jar',
+];
+
+// Device names Windows reserves whatever the extension
+const RESERVED_NAME_PATTERN = /^(CON|PRN|AUX|NUL|CONIN\$|CONOUT\$|COM[0-9¹²³]|LPT[0-9¹²³])$/i;
+
+/**
+ * Name and declared type of an upload, with the type detected from its content
+ */
+export interface FileNameTarget {
+  fileName: string;
+  declaredMime: string | null;
+  detectedMime: string;
+}
+
+/**
+ * Check of a file name, with its own verdict and reason
+ */
+interface FileNameCheck {
+  verdict: ScanVerdict;
+  finding: ScanFinding;
+  reason: string;
+}
+
+/**
+ * Whether a MIME type or an extension denotes executable content
+ */
+function isExecutable(mimeType: string | false | null, extension?: string): boolean {
+  return (!!mimeType && dangerousFileTypes.includes(mimeType)) ||
+    (!!extension && EXECUTABLE_EXTENSIONS.includes(extension));
+}
+
+/**
+ * Show bidi controls in a name instead of applying them
+ */
+function escapeName(fileName: string): string {
+  return fileName.replace(new RegExp(BIDI_CONTROL_PATTERN, 'g'), (char) =>
+    `<U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}>`
+  );
+}
+
+/**
+ * Compare a file's name and declared type with its content
+ */
+function checkFileName({ fileName, declaredMime, detectedMime }: FileNameTarget): FileNameCheck[] {
+  const checks: FileNameCheck[] = [];
+  const shown = escapeName(fileName);
+
+  // Trailing dots and spaces are dropped by Windows, so they cannot hide the real extension
+  const parts = fileName.replace(new RegExp(BIDI_CONTROL_PATTERN, 'g'), '').replace(/[. ]+$/, '').split('.');
+  const extension = parts.length > 1 ? parts[parts.length - 1].trim().toLowerCase() : '';
+  const extensionMime = extension ? mime.lookup(extension) : false;
+  const detectedExecutable = isExecutable(detectedMime);
+
+  if (BIDI_CONTROL_PATTERN.test(fileName)) {
+    checks.push({
+      verdict: 'suspicious',
+      finding: { name: 'bidi-override', detail: shown, verdict: 'suspicious' },
+      reason: `File name "${shown}" contains Unicode direction controls that disguise its extension`,
+    });
+  }
+
+  // A second extension made to look like the real one, as in photo.jpg.exe
+  if (parts.length > 2 && isExecutable(extensionMime, extension)) {
+    const decoy = parts[parts.length - 2].trim().toLowerCase();
+
+    if (mime.lookup(decoy) && !isExecutable(mime.lookup(decoy), decoy)) {
+      checks.push({
+        verdict: 'suspicious',
+        finding: { name: 'double-extension', detail: `.${decoy}.${extension}`, verdict: 'suspicious' },
+        reason: `File name "${shown}" hides the executable extension .${extension} behind .${decoy}`,
+      });
+    }
+  }
+
+  if (RESERVED_NAME_PATTERN.test(parts[0].trim())) {
+    checks.push({
+      verdict: 'suspicious',
+      finding: { name: 'reserved-device-name', detail: parts[0].trim(), verdict: 'suspicious' },
+      reason: `File name "${shown}" is the reserved Windows device name ${parts[0].trim().toUpperCase()}`,
+    });
+  }
+
+  // Executable content named or declared as something else, as in invoice.pdf holding a PE file;
+  // executable types are interchangeable, e.g. .exe maps to application/x-msdos-program
+  const extensionExecutable = isExecutable(extensionMime, extension);
+  if (extensionMime && extensionMime !== detectedMime && !(extensionExecutable && detectedExecutable)) {
+    const verdict = detectedExecutable ? 'suspicious' : 'clean';
+    checks.push({
+      verdict,
+      finding: { name: 'extension-mismatch', detail: `.${extension} (${extensionMime}) holds ${detectedMime}`, verdict },
+      reason: `File "${shown}" is named as ${extensionMime} but contains ${detectedMime}`,
+    });
+  }
+
+  // Clients send application/octet-stream when they do not know the type
+  const declared = declaredMime ? declaredMime.split(';')[0].trim().toLowerCase() : null;
+  if (
+    declared && declared !== 'application/octet-stream' && declared !== detectedMime &&
+    !(isExecutable(declared) && detectedExecutable)
+  ) {
+    const verdict = detectedExecutable ? 'suspicious' : 'clean';
+    checks.push({
+      verdict,
+      finding: { name: 'declared-type-mismatch', detail: `${declared} holds ${detectedMime}`, verdict },
+      reason: `File "${shown}" was uploaded as ${declared} but contains ${detectedMime}`,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Check a file name for spoofing, combining the verdicts of the individual checks
+ *
+ * Mismatches between harmless types are reported without flagging the file;
+ * only those hiding executable content are suspicious.
+ */
+export function inspectFileName(target: FileNameTarget): ScanResult {
+  const checks = checkFileName(target);
+  const flagged = checks.filter((check) => check.verdict !== 'clean');
+
+  return {
+    verdict: flagged.length > 0 ? 'suspicious' : 'clean',
+    findings: checks.map((check) => check.finding),
+    engineVersion: null,
+    signatureVersion: null,
+    reason: flagged.length > 0 ? flagged.map((check) => check.reason).join('; ') : undefined,
+  };
+}
+
+/**
+ * Create a scanner flagging file names that disguise their content
+ */
+export function createFileNameScanner(): Scanner {
+  return {
+    name: 'file-name',
+
+    async scan(target) {
+      return inspectFileName(target);
+    },
+  };
+}
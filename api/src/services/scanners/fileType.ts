@@ -0,0 +1,44 @@
+import { Scanner } from './types';
+
+// List of potentially dangerous file types
+export const dangerousFileTypes = [
+  'application/x-msdownload',
+  'application/x-executable',
+  'application/x-dosexec',
+  'application/x-msdos-program',
+  'application/x-msdos-windows',
+  'application/bat',
+  'application/x-bat',
+  'application/x-msdownload',
+  'application/javascript',
+  'text/javascript',
+  'application/html',
+  'text/html',
+  'application/wasm',
+  'application/jar',
+  'application/java-archive',
+  'image/svg+xml', // SVGs can contain malicious code
+];
+
+/**
+ * Create a scanner flagging file types that are dangerous to serve
+ */
+export function createFileTypeScanner(): Scanner {
+  return {
+    name: 'file-type',
+
+    async scan(target) {
+      if (dangerousFileTypes.includes(target.detectedMime)) {
+        return {
+          verdict: 'suspicious',
+          findings: [{ name: 'dangerous-file-type', detail: target.detectedMime }],
+          engineVersion: null,
+          signatureVersion: null,
+          reason: `Potentially dangerous file type detected: ${target.detectedMime}`,
+        };
+      }
+
+      return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import config from '../../config';
+import { logger } from '../../utils/logger';
+import { createArchiveScanner } from './archive';
+import { createClamAVScanner } from './clamav';
+import { createFileNameScanner } from './fileName';
+import { createFileTypeScanner } from './fileType';
+import { createOfficeScanner } from './office';
+import { createPdfScanner } from './pdf';
+import { createYaraScanner } from './yara';
+import { Scanner, ScanResult, ScanTarget, ScanVerdict, ScannerUnavailableError } from './types';
+
+export * from './types';
+
+/**
+ * Result of one scanner in the chain
+ */
+export interface ScannerRunResult extends Omit<ScanResult, 'verdict'> {
+  scanner: string;
+  verdict: ScanVerdict | 'error' | 'unavailable';
+  durationMs: number;
+  /** Why the scanner could not reach a verdict */
+  error: string | null;
+}
+
+/**
+ * Combined outcome of the scanner chain
+ *
+ * Without a detection, the chain failed if a scanner errored, and is unavailable
+ * if the only errors came from unreachable scanners.
+ */
+export interface ScanReport {
+  status: 'clean' | 'quarantined' | 'failed' | 'unavailable';
+  reason: string | null;
+  results: ScannerRunResult[];
+}
+
+// Scanners that can be named in the chain
+const scannerFactories = new Map<string, () => Scanner>([
+  ['clamav', createClamAVScanner],
+  ['yara', createYaraScanner],
+  ['file-name', createFileNameScanner],
+  ['file-type', createFileTypeScanner],
+  ['archive', createArchiveScanner],
+  ['office', createOfficeScanner],
+  ['pdf', createPdfScanner],
+]);
+
+let chain: Scanner[] | null = null;
+
+/**
+ * Make a scanner available to the chain under its name
+ */
+export function registerScanner(name: string, factory: () => Scanner): void {
+  scannerFactories.set(name, factory);
+  chain = null;
+}
+
+/**
+ * Build the configured chain of scanners, in order
+ */
+function getScannerChain(): Scanner[] {
+  if (!chain) {
+    chain = config.antivirus.scanners.map((name) => {
+      const factory = scannerFactories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown scanner: ${name}`);
+      }
+      return factory();
+    });
+  }
+  return chain;
+}
+
+/**
+ * Run every scanner of the chain against a file
+ *
+ * All scanners run even after a detection or an error so that the report is
+ * complete. The file is quarantined if any scanner flags it, with the first
+ * detection as the reason.
+ */
+export async function scanFile(target: ScanTarget): Promise<ScanReport> {
+  const results: ScannerRunResult[] = [];
+
+  for (const scanner of getScannerChain()) {
+    const startedAt = Date.now();
+
+    try {
+      const result = await scanner.scan(target);
+
+      results.push({ ...result, scanner: scanner.name, durationMs: Date.now() - startedAt, error: null });
+
+      if (result.verdict !== 'clean') {
+        logger.warn(`Scanner ${scanner.name} flagged file ${target.fileId} as ${result.verdict}`);
+      }
+    } catch (error) {
+      const unavailable = error instanceof ScannerUnavailableError;
+      logger.error(`Scanner ${scanner.name} ${unavailable ? 'unavailable' : 'failed'} on file ${target.fileId}:`, error);
+
+      results.push({
+        scanner: scanner.name,
+        verdict: unavailable ? 'unavailable' : 'error',
+        findings: [],
+        engineVersion: null,
+        signatureVersion: null,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  const detection = results.find((result) => !['clean', 'error', 'unavailable'].includes(result.verdict));
+  const failure = results.find((result) => result.verdict === 'error');
+  const outage = results.find((result) => result.verdict === 'unavailable');
+
+  if (detection) {
+    return {
+      status: 'quarantined',
+      reason: detection.reason || `Detected by ${detection.scanner}: ${detection.findings.map((finding) => finding.name).join(', ')}`,
+      results,
+    };
+  }
+
+  if (failure) {
+    return { status: 'failed', reason: `Scanner ${failure.scanner} failed: ${failure.error}`, results };
+  }
+
+  if (outage) {
+    return { status: 'unavailable', reason: `Scanner ${outage.scanner} unavailable: ${outage.error}`, results };
+  }
+
+  return { status: 'clean', reason: null, results };
+}
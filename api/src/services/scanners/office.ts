@@ -0,0 +1,531 @@
+import { Readable } from 'stream';
+import * as CFB from 'cfb';
+import JSZip from 'jszip';
+import mime from 'mime-types';
+import config from '../../config';
+import { readStreamWithLimit } from '../../utils/stream';
+import { ScanFinding, Scanner, SanitizedContent } from './types';
+
+// OOXML documents, with and without macros
+const OOXML_TYPES = [
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.template',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.template',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.openxmlformats-officedocument.presentationml.slideshow',
+  'application/vnd.openxmlformats-officedocument.presentationml.template',
+  'application/vnd.ms-word.document.macroenabled.12',
+  'application/vnd.ms-word.template.macroenabled.12',
+  'application/vnd.ms-excel.sheet.macroenabled.12',
+  'application/vnd.ms-excel.template.macroenabled.12',
+  'application/vnd.ms-powerpoint.presentation.macroenabled.12',
+  'application/vnd.ms-powerpoint.slideshow.macroenabled.12',
+  'application/vnd.ms-powerpoint.template.macroenabled.12',
+];
+
+// Legacy documents stored as OLE compound files
+const OLE_TYPES = [
+  'application/x-cfb',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+];
+
+// Main parts of macro-enabled documents, with the main part and file type of their macro-free equivalent
+const MACRO_FREE_TYPES: Record<string, [string, string]> = {
+  'application/vnd.ms-word.document.macroEnabled.main+xml': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ],
+  'application/vnd.ms-word.template.macroEnabledTemplate.main+xml': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.template.main+xml',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.template',
+  ],
+  'application/vnd.ms-excel.sheet.macroEnabled.main+xml': [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ],
+  'application/vnd.ms-excel.template.macroEnabled.main+xml': [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.template.main+xml',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.template',
+  ],
+  'application/vnd.ms-powerpoint.presentation.macroEnabled.main+xml': [
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ],
+  'application/vnd.ms-powerpoint.slideshow.macroEnabled.main+xml': [
+    'application/vnd.openxmlformats-officedocument.presentationml.slideshow.main+xml',
+    'application/vnd.openxmlformats-officedocument.presentationml.slideshow',
+  ],
+  'application/vnd.ms-powerpoint.template.macroEnabled.main+xml': [
+    'application/vnd.openxmlformats-officedocument.presentationml.template.main+xml',
+    'application/vnd.openxmlformats-officedocument.presentationml.template',
+  ],
+};
+
+// Office file extensions, used when the content is only detected as a zip
+const OFFICE_EXTENSION_PATTERN = /\.(docx|docm|dotx|dotm|xlsx|xlsm|xltx|xltm|pptx|pptm|potx|potm|ppsx|ppsm)$/i;
+
+// Macros run by Office without user action
+const AUTO_EXEC_PATTERN = /\b(?:Sub|Function)\s+(AutoOpen|AutoExec|AutoNew|AutoClose|AutoExit|Auto_Open|Auto_Close|Document_Open|Document_Close|Document_New|DocumentOpen|DocumentBeforeClose|Document_BeforeClose|NewDocument|Workbook_Open|Workbook_Activate|Workbook_Close|Workbook_BeforeClose)\b/gi;
+
+// Relationship types that make Office fetch content from elsewhere
+const EXTERNAL_REFERENCE_TYPES = /\/(attachedTemplate|oleObject|subDocument|frame)$/;
+
+// Storages holding the VBA project of legacy Word and Excel documents
+const OLE_VBA_STORAGES = ['Macros', '_VBA_PROJECT_CUR'];
+
+// Upper bound on decompressed VBA source per module
+const MAX_VBA_SOURCE_SIZE = 16 * 1024 * 1024;
+
+// Upper bound on the inflated size of an OOXML part that is read
+const MAX_PART_SIZE = 16 * 1024 * 1024;
+
+// Index of the attached template in the associated strings of a Word binary document
+const ASSOC_DOT_INDEX = 1;
+
+// Template paths on another host, which Word fetches when opening the document
+const REMOTE_PATH_PATTERN = /^(?:\\\\|[a-z][a-z0-9+.-]*:\/\/)/i;
+
+/**
+ * Active content found in a document
+ */
+interface Inspection {
+  findings: ScanFinding[];
+  /** Whether stripping removes all of the active content found */
+  strippable: boolean;
+  /** Build a copy without macros and external templates */
+  strip: () => Promise<SanitizedContent>;
+}
+
+/**
+ * Decompress a VBA compressed container (MS-OVBA 2.4.1)
+ */
+function decompressVba(data: Buffer, start: number): string {
+  if (data[start] !== 0x01) {
+    throw new Error('Not a VBA compressed container');
+  }
+
+  // Each chunk decompresses to at most 4096 bytes; the buffer grows by doubling
+  let output = Buffer.alloc(Math.min(MAX_VBA_SOURCE_SIZE, 64 * 1024));
+  let length = 0;
+  let position = start + 1;
+
+  while (position + 2 <= data.length && length < MAX_VBA_SOURCE_SIZE) {
+    const header = data.readUInt16LE(position);
+    const chunkEnd = Math.min(data.length, position + (header & 0x0fff) + 3);
+    const chunkStart = length;
+    position += 2;
+
+    if (output.length - length < 4096) {
+      const grown = Buffer.alloc(Math.min(output.length * 2, MAX_VBA_SOURCE_SIZE + 4096));
+      output.copy(grown, 0, 0, length);
+      output = grown;
+    }
+
+    // Uncompressed chunks hold 4096 raw bytes
+    if ((header & 0x8000) === 0) {
+      length += data.copy(output, length, position, Math.min(data.length, position + 4096));
+      position += 4096;
+      continue;
+    }
+
+    while (position < chunkEnd) {
+      const flags = data[position++];
+
+      for (let bit = 0; bit < 8 && position < chunkEnd; bit++) {
+        if (length - chunkStart >= 4096) {
+          throw new Error('Chunk decompresses beyond 4096 bytes');
+        }
+
+        if ((flags & (1 << bit)) === 0) {
+          output[length++] = data[position++];
+          continue;
+        }
+
+        if (position + 2 > data.length) {
+          throw new Error('Truncated copy token');
+        }
+
+        // Copy tokens split their bits between offset and length by position in the chunk
+        const token = data.readUInt16LE(position);
+        const bitCount = Math.max(Math.ceil(Math.log2(length - chunkStart)), 4);
+        const lengthMask = 0xffff >> bitCount;
+        const copyLength = (token & lengthMask) + 3;
+        const offset = (token >> (16 - bitCount)) + 1;
+        const source = length - offset;
+        position += 2;
+
+        if (source < chunkStart || length - chunkStart + copyLength > 4096) {
+          throw new Error('Invalid copy token');
+        }
+
+        // Copies may overlap their own output, so bytes are copied one at a time
+        for (let index = 0; index < copyLength; index++) {
+          output[length++] = output[source + index];
+        }
+      }
+    }
+  }
+
+  return output.toString('latin1', 0, length);
+}
+
+/**
+ * Find auto-exec macros in the VBA modules of a compound file
+ *
+ * Module source is located by its "Attribute VB_Name" header rather than by
+ * parsing the dir stream, which also finds modules with a damaged dir stream.
+ */
+function findAutoExecMacros(container: CFB.CFB$Container): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  const marker = Buffer.from('\x00Attribut', 'latin1');
+
+  container.FileIndex.forEach((entry, index) => {
+    if (entry.type !== 2 || !/\/VBA\/[^/]+$/i.test(container.FullPaths[index])) {
+      return;
+    }
+
+    const content = Buffer.from(entry.content);
+    const start = content.indexOf(marker);
+    if (start < 3) {
+      return;
+    }
+
+    let source: string;
+    try {
+      source = decompressVba(content, start - 3);
+    } catch {
+      return;
+    }
+
+    for (const match of source.matchAll(AUTO_EXEC_PATTERN)) {
+      findings.push({ name: 'auto-exec-macro', detail: `${entry.name}: ${match[1]}` });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Read the attached template path of a Word binary document (MS-DOC 2.5.1, 2.9.4)
+ *
+ * The path is the second of the associated strings (SttbfAssoc) in the table
+ * stream, which the FIB locates. Returns null for other documents.
+ */
+function findAttachedTemplate(container: CFB.CFB$Container): string | null {
+  const wordDocument = CFB.find(container, 'WordDocument');
+  if (!wordDocument || !wordDocument.content) {
+    return null;
+  }
+
+  const fib = Buffer.from(wordDocument.content);
+  if (fib.length < 34) {
+    return null;
+  }
+
+  // The FIB holds a counted array of shorts, then of longs, then the offset/length pairs
+  const cslwOffset = 34 + fib.readUInt16LE(32) * 2;
+  const fcLcbOffset = cslwOffset + 2 + fib.readUInt16LE(cslwOffset) * 4 + 2;
+  const assocOffset = fcLcbOffset + 32 * 8;
+  if (assocOffset + 8 > fib.length || fib.readUInt16LE(fcLcbOffset - 2) <= 32) {
+    return null;
+  }
+
+  const fcSttbfAssoc = fib.readUInt32LE(assocOffset);
+  const lcbSttbfAssoc = fib.readUInt32LE(assocOffset + 4);
+  const tableName = fib.readUInt16LE(10) & 0x0200 ? '1Table' : '0Table';
+  const table = CFB.find(container, tableName);
+  if (!table || !table.content || lcbSttbfAssoc === 0) {
+    return null;
+  }
+
+  const sttb = Buffer.from(table.content).subarray(fcSttbfAssoc, fcSttbfAssoc + lcbSttbfAssoc);
+  if (sttb.length < 6) {
+    return null;
+  }
+
+  // Extended string tables hold UTF-16 strings, others 8-bit ones
+  const extended = sttb.readUInt16LE(0) === 0xffff;
+  const count = extended ? sttb.readUInt16LE(2) : sttb.readUInt16LE(0);
+  const extraSize = extended ? sttb.readUInt16LE(4) : sttb.readUInt16LE(2);
+  let position = extended ? 6 : 4;
+
+  for (let index = 0; index < count && index <= ASSOC_DOT_INDEX; index++) {
+    const length = extended ? sttb.readUInt16LE(position) : sttb[position];
+    position += extended ? 2 : 1;
+
+    const end = position + (extended ? length * 2 : length);
+    if (end > sttb.length) {
+      return null;
+    }
+
+    if (index === ASSOC_DOT_INDEX) {
+      return sttb.toString(extended ? 'utf16le' : 'latin1', position, end) || null;
+    }
+    position = end + extraSize;
+  }
+
+  return null;
+}
+
+/**
+ * Parse the attributes of the relationships in a .rels part
+ */
+function parseRelationships(xml: string): { element: string; attributes: Record<string, string> }[] {
+  return [...xml.matchAll(/<Relationship\b[^>]*\/?>/g)].map(([element]) => ({
+    element,
+    attributes: Object.fromEntries([...element.matchAll(/(\w+)="([^"]*)"/g)].map((match) => [match[1], match[2]])),
+  }));
+}
+
+/**
+ * Read a part of an OOXML document, or return null once it inflates beyond MAX_PART_SIZE
+ *
+ * The sizes in the zip headers are not trusted; the part is inflated through the limit.
+ */
+async function readPart(zip: JSZip, name: string): Promise<Buffer | null> {
+  return readStreamWithLimit(new Readable().wrap(zip.file(name)!.nodeStream('nodebuffer')), MAX_PART_SIZE);
+}
+
+/**
+ * Inspect an OOXML document
+ */
+async function inspectOoxml(content: Buffer): Promise<Inspection> {
+  const zip = await JSZip.loadAsync(content);
+  const names = Object.keys(zip.files).filter((name) => !zip.files[name].dir);
+  const findings: ScanFinding[] = [];
+
+  // XML parts rewritten when stripping, kept from the inspection
+  const xmlParts = new Map<string, string>();
+
+  for (const name of names) {
+    const isVbaProject = /(^|\/)vbaProject\.bin$/i.test(name);
+    const isXmlPart = /\.rels$/i.test(name) || /^word\/settings\.xml$/i.test(name) || name === '[Content_Types].xml';
+
+    if (isVbaProject) {
+      findings.push({ name: 'vba-project', detail: name });
+    }
+
+    if (/\/embeddings\/oleObject[^/]*\.bin$/i.test(name)) {
+      findings.push({ name: 'embedded-ole-object', detail: name });
+    }
+
+    if (!isVbaProject && !isXmlPart) {
+      continue;
+    }
+
+    const part = await readPart(zip, name);
+    if (!part) {
+      findings.push({ name: 'not-inspected', detail: `${name} inflates beyond ${MAX_PART_SIZE} bytes` });
+      continue;
+    }
+
+    if (isVbaProject) {
+      try {
+        findings.push(...findAutoExecMacros(CFB.read(part, { type: 'buffer' })));
+      } catch {
+        findings.push({ name: 'unreadable-vba-project', detail: name });
+      }
+      continue;
+    }
+
+    xmlParts.set(name, part.toString('utf8'));
+
+    if (/\.rels$/i.test(name)) {
+      for (const { attributes } of parseRelationships(xmlParts.get(name) as string)) {
+        if (attributes.TargetMode === 'External' && EXTERNAL_REFERENCE_TYPES.test(attributes.Type || '')) {
+          const kind = attributes.Type.endsWith('/attachedTemplate') ? 'external-template' : 'external-reference';
+          findings.push({ name: kind, detail: attributes.Target });
+        }
+      }
+    }
+  }
+
+  return {
+    findings,
+    strippable: !findings.some((finding) => ['embedded-ole-object', 'not-inspected'].includes(finding.name)),
+
+    async strip() {
+      let fileType: string | null = null;
+
+      for (const name of names) {
+        if (/(^|\/)(vbaProject\.bin|vbaData\.xml)(\.rels)?$/i.test(name)) {
+          zip.remove(name);
+          continue;
+        }
+
+        if (/\.rels$/i.test(name)) {
+          const xml = xmlParts.get(name) as string;
+          const stripped = parseRelationships(xml).reduce((result, { element, attributes }) => {
+            const isMacro = /vbaProject\.bin$/i.test(attributes.Target || '');
+            const isTemplate = attributes.TargetMode === 'External' && EXTERNAL_REFERENCE_TYPES.test(attributes.Type || '');
+            return isMacro || isTemplate ? result.replace(element, '') : result;
+          }, xml);
+          zip.file(name, stripped);
+        }
+
+        if (/^word\/settings\.xml$/i.test(name)) {
+          zip.file(name, (xmlParts.get(name) as string).replace(/<w:attachedTemplate\b[^>]*\/>/g, ''));
+        }
+
+        // Declare the main part as macro-free so that Office opens the document
+        if (name === '[Content_Types].xml') {
+          let xml = (xmlParts.get(name) as string)
+            .replace(/<Override\b[^>]*PartName="[^"]*(vbaProject\.bin|vbaData\.xml)"[^>]*\/>/gi, '')
+            .replace(/<Default\b[^>]*ContentType="application\/vnd\.ms-office\.vbaProject"[^>]*\/>/gi, '');
+
+          for (const [macroType, [mainType, type]] of Object.entries(MACRO_FREE_TYPES)) {
+            if (xml.includes(`"${macroType}"`)) {
+              xml = xml.split(`"${macroType}"`).join(`"${mainType}"`);
+              fileType = type;
+            }
+          }
+          zip.file(name, xml);
+        }
+      }
+
+      return {
+        content: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+        contentType: fileType || '',
+      };
+    },
+  };
+}
+
+/**
+ * Inspect a legacy OLE document
+ */
+function inspectOle(content: Buffer): Inspection {
+  const container = CFB.read(content, { type: 'buffer' });
+  const findings: ScanFinding[] = [];
+  const vbaPaths: string[] = [];
+
+  container.FileIndex.forEach((entry, index) => {
+    const path = container.FullPaths[index];
+
+    if (entry.type === 1 && OLE_VBA_STORAGES.includes(entry.name)) {
+      findings.push({ name: 'vba-project', detail: entry.name });
+      vbaPaths.push(path);
+    }
+
+    if (entry.name === 'ObjectPool' || entry.name === '\x01Ole10Native' || /^MBD[0-9A-F]{8}$/i.test(entry.name)) {
+      findings.push({ name: 'embedded-ole-object', detail: entry.name.replace(/^\x01/, '') });
+    }
+  });
+
+  if (vbaPaths.length > 0) {
+    findings.push(...findAutoExecMacros(container));
+  }
+
+  // Stripping would have to rewrite the table stream, so these are not strippable
+  const template = findAttachedTemplate(container);
+  if (template && REMOTE_PATH_PATTERN.test(template)) {
+    findings.push({ name: 'external-template', detail: template });
+  }
+
+  return {
+    findings,
+    strippable: !findings.some((finding) => ['embedded-ole-object', 'external-template'].includes(finding.name)),
+
+    async strip() {
+      // Drop the VBA storages with everything below them, then rebuild the directory tree
+      for (let index = container.FullPaths.length - 1; index >= 0; index--) {
+        if (vbaPaths.some((vbaPath) => container.FullPaths[index].startsWith(vbaPath))) {
+          container.FullPaths.splice(index, 1);
+          container.FileIndex.splice(index, 1);
+        }
+      }
+      CFB.utils.cfb_gc(container);
+
+      return { content: Buffer.from(CFB.write(container, { type: 'buffer' })), contentType: '' };
+    },
+  };
+}
+
+/**
+ * Create a scanner finding macros, embedded objects and external templates in Office documents
+ *
+ * Depending on the configured policy, documents with active content are
+ * quarantined, flagged in their scan report only, or stripped: the macros and
+ * external templates are removed from a copy that is served instead of the
+ * original. Embedded objects, external templates of legacy Word documents and
+ * parts too large to inspect cannot be stripped, so stripping quarantines
+ * documents holding them.
+ */
+export function createOfficeScanner(): Scanner {
+  return {
+    name: 'office',
+
+    async scan(target) {
+      const isOoxml = OOXML_TYPES.includes(target.detectedMime) ||
+        (target.detectedMime === 'application/zip' && OFFICE_EXTENSION_PATTERN.test(target.fileName));
+      const isOle = OLE_TYPES.includes(target.detectedMime);
+
+      if (!isOoxml && !isOle) {
+        return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+      }
+
+      const policy = config.antivirus.officeMacroPolicy;
+      const content = await readStreamWithLimit(await target.openStream(), config.antivirus.officeMaxSize);
+
+      if (!content) {
+        return {
+          verdict: 'suspicious',
+          findings: [{ name: 'not-inspected', detail: `Larger than ${config.antivirus.officeMaxSize} bytes` }],
+          engineVersion: null,
+          signatureVersion: null,
+          reason: 'Office document too large to inspect for macros',
+        };
+      }
+
+      let inspection: Inspection;
+      try {
+        inspection = isOoxml ? await inspectOoxml(content) : inspectOle(content);
+      } catch (error) {
+        return {
+          verdict: 'suspicious',
+          findings: [{ name: 'unreadable-document', detail: (error as Error).message }],
+          engineVersion: null,
+          signatureVersion: null,
+          reason: 'Office document could not be inspected for macros',
+        };
+      }
+
+      const { findings } = inspection;
+      if (findings.length === 0) {
+        return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+      }
+
+      const summary = [...new Set(findings.map((finding) => finding.name))].join(', ');
+
+      if (policy === 'flag') {
+        return { verdict: 'clean', findings, engineVersion: null, signatureVersion: null };
+      }
+
+      if (policy === 'strip' && inspection.strippable) {
+        const sanitized = await inspection.strip();
+
+        return {
+          verdict: 'clean',
+          findings,
+          engineVersion: null,
+          signatureVersion: null,
+          sanitized: {
+            content: sanitized.content,
+            contentType: sanitized.contentType || mime.lookup(target.fileName) || target.detectedMime,
+          },
+        };
+      }
+
+      return {
+        verdict: 'suspicious',
+        findings,
+        engineVersion: null,
+        signatureVersion: null,
+        reason: `Office document contains active content: ${summary}`,
+      };
+    },
+  };
+}
@@ -0,0 +1,298 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { inflateSync } from 'zlib';
+import config from '../../config';
+import { logger } from '../../utils/logger';
+import { readStreamWithLimit } from '../../utils/stream';
+import { withTempFile } from '../../utils/tempFile';
+import { ScanFinding, Scanner, SanitizedContent } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Names of the constructs that run code or reach outside the document, with their finding
+const ACTIVE_CONTENT_NAMES: Record<string, string> = {
+  JavaScript: 'javascript',
+  JS: 'javascript',
+  Launch: 'launch-action',
+  EmbeddedFile: 'embedded-file',
+  EmbeddedFiles: 'embedded-file',
+};
+
+// Upper bound on the inflated size of all object streams of a PDF
+const MAX_OBJECT_STREAM_SIZE = 64 * 1024 * 1024;
+
+// Characters before "obj" searched for the object number and generation
+const OBJECT_HEADER_WINDOW = 32;
+
+/**
+ * Decode #xx escapes in names, which hide keys such as /J#61vaScript from a plain search
+ */
+function decodeNames(text: string): string {
+  return text.replace(/\/[^\s/[\]<>(){}%]+/g, (name) =>
+    name.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
+/**
+ * Read the dictionary starting at an offset, including nested dictionaries
+ */
+function readDictionary(text: string, start: number): string {
+  let depth = 0;
+
+  for (let index = start; index < text.length - 1; index++) {
+    const pair = text.slice(index, index + 2);
+
+    if (pair === '<<') {
+      depth++;
+      index++;
+    } else if (pair === '>>') {
+      depth--;
+      index++;
+      if (depth === 0) {
+        return text.slice(start, index + 1);
+      }
+    }
+  }
+
+  return text.slice(start);
+}
+
+/**
+ * Filters of a stream, from its /Filter entry
+ */
+function streamFilters(dictionary: string): string[] {
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary)?.[1] || '';
+  return [...filter.matchAll(/\/(\w+)/g)].map((match) => match[1]);
+}
+
+/**
+ * Collect the objects of a PDF, including those packed in object streams
+ *
+ * Objects are found in a single forward scan for "obj" and the next "endobj".
+ * Object streams are compressed, so their objects are inflated here within a
+ * budget shared by the whole file; other streams only hold page content and
+ * are left alone. Object streams that cannot be decoded hide their objects, so
+ * they are reported as findings.
+ */
+function collectObjects(content: Buffer, findings: ScanFinding[]): Map<string, string> {
+  const text = content.toString('latin1');
+  const objects = new Map<string, string>();
+  let inflatedBytes = 0;
+  let position = 0;
+
+  for (;;) {
+    const keyword = text.indexOf('obj', position);
+    if (keyword < 0) {
+      break;
+    }
+    position = keyword + 3;
+
+    // "endobj" and words merely containing "obj" have no number and generation before them
+    const header = /(\d+)\s+\d+\s+$/.exec(text.slice(Math.max(0, keyword - OBJECT_HEADER_WINDOW), keyword));
+    if (!header || /\w/.test(text[keyword + 3] || '')) {
+      continue;
+    }
+
+    // The scan resumes after the "endobj", so no part of the file is searched twice
+    const endobj = text.indexOf('endobj', keyword);
+    if (endobj < 0) {
+      break;
+    }
+
+    const number = header[1];
+    const body = text.slice(keyword + 3, endobj);
+    position = endobj + 6;
+
+    const streamStart = body.search(/\bstream\r?\n/);
+    const dictionary = decodeNames(streamStart >= 0 ? body.slice(0, streamStart) : body);
+    objects.set(number, dictionary);
+
+    if (streamStart < 0 || !/\/Type\s*\/ObjStm\b/.test(dictionary)) {
+      continue;
+    }
+
+    // Only a plain Flate stream is decoded; other filters and predictors are not
+    const filters = streamFilters(dictionary);
+    if (/\/DecodeParms\b/.test(dictionary)) {
+      filters.push('DecodeParms');
+    }
+    if (filters.length > 1 || (filters.length === 1 && filters[0] !== 'FlateDecode')) {
+      findings.push({ name: 'unreadable-object-stream', detail: `Object ${number} (${filters.join(' ')})` });
+      continue;
+    }
+
+    const first = parseInt(/\/First\s+(\d+)/.exec(dictionary)?.[1] || '0', 10);
+    const dataStart = streamStart + (/^stream\r?\n/.exec(body.slice(streamStart))?.[0].length || 0);
+    const dataEnd = body.lastIndexOf('endstream');
+    const data = body.slice(dataStart, dataEnd > dataStart ? dataEnd : body.length).replace(/\r?\n$/, '');
+    let inflated: string;
+
+    try {
+      inflated = filters.length === 1
+        ? inflateSync(Buffer.from(data, 'latin1'), { maxOutputLength: MAX_OBJECT_STREAM_SIZE - inflatedBytes + 1 }).toString('latin1')
+        : data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        findings.push({ name: 'not-inspected', detail: `Object streams inflate beyond ${MAX_OBJECT_STREAM_SIZE} bytes` });
+        break;
+      }
+
+      findings.push({ name: 'unreadable-object-stream', detail: `Object ${number}` });
+      continue;
+    }
+
+    inflatedBytes += inflated.length;
+    if (inflatedBytes > MAX_OBJECT_STREAM_SIZE) {
+      findings.push({ name: 'not-inspected', detail: `Object streams inflate beyond ${MAX_OBJECT_STREAM_SIZE} bytes` });
+      break;
+    }
+
+    // The stream starts with pairs of object numbers and offsets from /First
+    const offsets = inflated.slice(0, first).trim().split(/\s+/).map((value) => parseInt(value, 10));
+    for (let index = 0; index + 1 < offsets.length; index += 2) {
+      const end = index + 3 < offsets.length ? first + offsets[index + 3] : inflated.length;
+      objects.set(String(offsets[index]), decodeNames(inflated.slice(first + offsets[index + 1], end)));
+    }
+  }
+
+  // The trailer of files without cross-reference streams holds no object
+  for (const match of text.matchAll(/\btrailer\s*(<<)/g)) {
+    objects.set(`trailer:${match.index}`, decodeNames(readDictionary(text, (match.index || 0) + match[0].length - 2)));
+  }
+
+  return objects;
+}
+
+/**
+ * Find the URIs opened without user action, from /OpenAction and /AA entries
+ */
+function findAutoOpenUris(objects: Map<string, string>): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+
+  // Resolve an action, inline or referenced, to its dictionary
+  const resolve = (value: string, start: number): string => {
+    const rest = value.slice(start).trimStart();
+    if (rest.startsWith('<<')) {
+      return readDictionary(rest, 0);
+    }
+    const reference = /^(\d+)\s+\d+\s+R/.exec(rest);
+    return (reference && objects.get(reference[1])) || '';
+  };
+
+  for (const object of objects.values()) {
+    for (const match of object.matchAll(/\/(OpenAction|AA)\b/g)) {
+      const value = resolve(object, (match.index || 0) + match[0].length);
+
+      // Additional actions map triggers to actions, so each of them is resolved in turn
+      const actions = match[1] === 'AA'
+        ? [...value.matchAll(/\/\w+\s*(?=<<|\d+\s+\d+\s+R)/g)].map((trigger) =>
+          resolve(value, (trigger.index || 0) + trigger[0].length))
+        : [value];
+
+      for (const action of actions) {
+        if (/\/S\s*\/URI\b/.test(action)) {
+          findings.push({ name: 'auto-open-uri', detail: /\/URI\s*\(([^)]*)\)/.exec(action)?.[1] || match[1] });
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Find JavaScript, launch actions, embedded files and auto-open URIs in a PDF
+ */
+function inspectPdf(content: Buffer): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  const objects = collectObjects(content, findings);
+  const seen = new Set<string>();
+
+  for (const [number, object] of objects) {
+    for (const match of object.matchAll(/\/(JavaScript|JS|Launch|EmbeddedFiles?)(?=[\s/[\]<>()%]|$)/g)) {
+      const name = ACTIVE_CONTENT_NAMES[match[1]];
+      if (!seen.has(name)) {
+        seen.add(name);
+        findings.push({ name, detail: number.startsWith('trailer') ? 'trailer' : `Object ${number}` });
+      }
+    }
+  }
+
+  return [...findings, ...findAutoOpenUris(objects)];
+}
+
+/**
+ * Flatten a PDF to page images with Ghostscript, dropping every interactive construct
+ */
+async function flattenPdf(content: Buffer): Promise<SanitizedContent> {
+  return withTempFile(Readable.from([content]), async (inputPath) => {
+    const outputPath = `${inputPath}.pdf`;
+
+    try {
+      await execFileAsync(config.antivirus.ghostscriptPath, [
+        '-dSAFER',
+        '-dBATCH',
+        '-dNOPAUSE',
+        '-dQUIET',
+        '-sDEVICE=pdfimage24',
+        `-r${config.antivirus.pdfPreviewResolution}`,
+        `-sOutputFile=${outputPath}`,
+        inputPath,
+      ], { timeout: config.antivirus.pdfPreviewTimeout * 1000 });
+
+      return { content: await fs.readFile(outputPath), contentType: 'application/pdf' };
+    } finally {
+      await fs.rm(outputPath, { force: true });
+    }
+  });
+}
+
+/**
+ * Create a scanner finding active content in PDFs
+ *
+ * PDFs with JavaScript, launch actions, embedded files or URIs opened
+ * automatically stay downloadable but lose inline preview. When enabled, a
+ * flattened copy rendered by Ghostscript is previewed instead.
+ */
+export function createPdfScanner(): Scanner {
+  return {
+    name: 'pdf',
+
+    async scan(target) {
+      if (target.detectedMime !== 'application/pdf') {
+        return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+      }
+
+      const content = await readStreamWithLimit(await target.openStream(), config.antivirus.pdfMaxSize);
+
+      // Without an inspection the PDF is treated as active
+      const findings = content
+        ? inspectPdf(content)
+        : [{ name: 'not-inspected', detail: `Larger than ${config.antivirus.pdfMaxSize} bytes` }];
+
+      if (findings.length === 0) {
+        return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+      }
+
+      let preview: SanitizedContent | undefined;
+      if (content && config.antivirus.pdfPreview) {
+        try {
+          preview = await flattenPdf(content);
+        } catch (error) {
+          logger.error(`Error flattening PDF ${target.fileId}:`, error);
+        }
+      }
+
+      return {
+        verdict: 'clean',
+        findings,
+        engineVersion: null,
+        signatureVersion: null,
+        activeContent: true,
+        preview,
+      };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { Readable } from 'stream';
+
+/**
+ * Outcome of a single scanner
+ *
+ * Suspicious content is quarantined just like infected content; the two are
+ * kept apart so that reports show how certain the detection was. Encrypted
+ * content could not be inspected and is quarantined as well.
+ */
+export type ScanVerdict = 'clean' | 'infected' | 'suspicious' | 'encrypted';
+
+/**
+ * Signature, rule or heuristic that matched
+ */
+export interface ScanFinding {
+  name: string;
+  detail?: string;
+  /** Verdict of this finding alone, for scanners that run several checks */
+  verdict?: ScanVerdict;
+}
+
+/**
+ * Copy of a file with its active content removed, served in place of the original
+ */
+export interface SanitizedContent {
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Result reported by a scanner
+ */
+export interface ScanResult {
+  verdict: ScanVerdict;
+  findings: ScanFinding[];
+  engineVersion: string | null;
+  /** Version of the signatures or rules the engine used */
+  signatureVersion: string | null;
+  /** Summary of a detection, used as the file's reason */
+  reason?: string;
+  /** Copy to serve instead of the original */
+  sanitized?: SanitizedContent;
+  /** Content that runs or reaches out when the file is opened, which rules out inline preview */
+  activeContent?: boolean;
+  /** Copy to preview inline instead of the original */
+  preview?: SanitizedContent;
+}
+
+/**
+ * File handed to the scanners
+ */
+export interface ScanTarget {
+  fileId: string;
+  ownerId: string;
+  /** Name as supplied by the client, before sanitization */
+  fileName: string;
+  size: number;
+  sha256: string;
+  detectedMime: string;
+  /** Content type sent by the client when the upload was initiated */
+  declaredMime: string | null;
+  /** Stream the plaintext content; every call starts a new stream */
+  openStream(): Promise<Readable>;
+}
+
+/**
+ * Error thrown by a scanner whose engine cannot be reached
+ *
+ * Kept apart from other errors so that the scan can be retried later instead
+ * of failing the file.
+ */
+export class ScannerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScannerUnavailableError';
+  }
+}
+
+/**
+ * Stage of the scanner chain
+ *
+ * Scanners throw when they cannot reach a verdict, with a
+ * ScannerUnavailableError if the engine is unreachable.
+ */
+export interface Scanner {
+  name: string;
+  scan(target: ScanTarget): Promise<ScanResult>;
+}
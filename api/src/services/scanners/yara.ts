@@ -0,0 +1,317 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { FSWatcher, promises as fs, watch } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { query } from '../db';
+import config from '../../config';
+import { logger } from '../../utils/logger';
+import { withTempFile } from '../../utils/tempFile';
+import { Scanner, ScannerUnavailableError } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Rule files picked up from the rules directory
+const RULE_FILE_PATTERN = /\.(yar|yara)$/i;
+
+// Rule declarations, after comments are stripped
+const RULE_NAME_PATTERN = /^\s*(?:(?:private|global)\s+)*rule\s+([A-Za-z_][A-Za-z0-9_]*)/gm;
+
+// Delay before reloading, so that editors writing several files trigger one reload
+const RELOAD_DEBOUNCE_MS = 500;
+
+/**
+ * YARA rule loaded from the rules directory
+ *
+ * Rules are namespaced by their file name so that files may reuse rule names.
+ */
+export interface YaraRule {
+  name: string;
+  file: string;
+}
+
+/**
+ * Rules loaded from the rules directory
+ */
+interface RuleSet {
+  generation: number;
+  files: string[];
+  rules: YaraRule[];
+  /** SHA-256 of the rule files, identifying the rules a scan used */
+  digest: string;
+  loadedAt: Date;
+}
+
+let ruleSet: RuleSet | null = null;
+let loading: Promise<RuleSet> | null = null;
+let watcher: FSWatcher | null = null;
+let watchFailed = false;
+let generation = 0;
+
+/**
+ * Rules compiled by yarac
+ *
+ * If a generation fails to compile, it keeps using the rule set compiled last.
+ */
+interface CompiledRules {
+  /** Generation of the loaded rules this compilation serves */
+  generation: number;
+  path: string;
+  /** Rules actually compiled into the file */
+  ruleSet: RuleSet;
+}
+
+let compiled: CompiledRules | null = null;
+let yaraVersion: string | null = null;
+
+/**
+ * Namespace of a rule file
+ */
+function namespaceOf(file: string): string {
+  return path.basename(file).replace(RULE_FILE_PATTERN, '');
+}
+
+/**
+ * Read the rule files and the names of the rules they declare
+ */
+async function readRuleSet(): Promise<Omit<RuleSet, 'generation'>> {
+  const dir = path.resolve(config.antivirus.yaraRulesPath);
+  const entries = await fs.readdir(dir).catch((error) => {
+    if (error.code === 'ENOENT') {
+      return [] as string[];
+    }
+    throw error;
+  });
+
+  const files = entries.filter((entry) => RULE_FILE_PATTERN.test(entry)).sort().map((entry) => path.join(dir, entry));
+  const rules: YaraRule[] = [];
+  const hash = createHash('sha256');
+
+  for (const file of files) {
+    const content = await fs.readFile(file, 'utf8');
+    hash.update(path.basename(file)).update('\0').update(content).update('\0');
+
+    const source = content
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/\/\/.*$/gm, '');
+
+    for (const match of source.matchAll(RULE_NAME_PATTERN)) {
+      rules.push({ name: `${namespaceOf(file)}:${match[1]}`, file: path.basename(file) });
+    }
+  }
+
+  return { files, rules, digest: hash.digest('hex'), loadedAt: new Date() };
+}
+
+/**
+ * Reload the rules whenever the rules directory changes
+ *
+ * Returns whether the directory is watched.
+ */
+function watchRules(): boolean {
+  if (watcher) {
+    return true;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  try {
+    watcher = watch(path.resolve(config.antivirus.yaraRulesPath), () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        ruleSet = null;
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    watcher.on('error', (error) => {
+      // The directory went away; watch it again on the next load
+      logger.warn('YARA rules watcher failed:', error);
+      watcher?.close();
+      watcher = null;
+      ruleSet = null;
+    });
+    watcher.unref();
+    watchFailed = false;
+    return true;
+  } catch (error) {
+    if (!watchFailed) {
+      logger.warn(`Cannot watch YARA rules directory, reading it on every scan until it can be watched:`, error);
+      watchFailed = true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Get the loaded rules, reloading them if the directory changed
+ */
+async function loadRules(): Promise<RuleSet> {
+  // Loaded rules are only trusted while a watcher reports changes to them
+  if (ruleSet && watcher) {
+    return ruleSet;
+  }
+
+  if (!loading) {
+    // Watch before reading, so that a change made during the read is not missed
+    watchRules();
+
+    loading = readRuleSet()
+      .then((loaded) => {
+        // Unchanged rules keep their generation, so that they are not compiled again
+        if (ruleSet && ruleSet.digest === loaded.digest) {
+          return ruleSet;
+        }
+
+        generation += 1;
+        ruleSet = { ...loaded, generation };
+        logger.info(`Loaded ${loaded.rules.length} YARA rules from ${loaded.files.length} files`);
+        return ruleSet;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  return loading;
+}
+
+/**
+ * Compile the loaded rules, keeping the previous rules if the new ones do not compile
+ */
+async function compileRules(rules: RuleSet): Promise<CompiledRules> {
+  if (compiled && compiled.generation === rules.generation) {
+    return compiled;
+  }
+
+  const output = path.join(os.tmpdir(), `webupload-yara-${process.pid}-${rules.generation}.yarc`);
+
+  try {
+    await execFileAsync(config.antivirus.yaraCompilerPath, [
+      ...rules.files.map((file) => `${namespaceOf(file)}:${file}`),
+      output,
+    ]);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ScannerUnavailableError(`YARA compiler not found: ${(error as Error).message}`);
+    }
+
+    if (!compiled) {
+      throw new Error(`Failed to compile YARA rules: ${(error as Error).message}`);
+    }
+
+    // Do not retry the broken rules on every scan
+    logger.error(`Failed to compile YARA rules, keeping the previous rules:`, error);
+    compiled = { ...compiled, generation: rules.generation };
+    return compiled;
+  }
+
+  const previous = compiled;
+  compiled = { generation: rules.generation, path: output, ruleSet: rules };
+
+  if (previous && previous.path !== output) {
+    await fs.rm(previous.path, { force: true });
+  }
+
+  return compiled;
+}
+
+/**
+ * Count matches of rules so that admins can see which rules fire
+ */
+async function recordMatches(ruleNames: string[]): Promise<void> {
+  await query(
+    `INSERT INTO yara_rule_matches (rule_name, match_count, last_matched_at)
+     SELECT name, 1, NOW() FROM UNNEST($1::text[]) as name
+     ON CONFLICT (rule_name) DO UPDATE
+     SET match_count = yara_rule_matches.match_count + 1, last_matched_at = NOW()`,
+    [ruleNames]
+  );
+}
+
+/**
+ * List the rules scans use with how often each has matched
+ *
+ * These are the compiled rules, which lag behind the loaded ones while the
+ * latest rules fail to compile.
+ */
+export async function getYaraRules(): Promise<{
+  rules: (YaraRule & { matchCount: number; lastMatchedAt: Date | null })[];
+  loadedAt: Date;
+}> {
+  const current = await loadRules();
+  const loaded = compiled && compiled.generation === current.generation ? compiled.ruleSet : current;
+  const result = await query(
+    'SELECT rule_name, match_count, last_matched_at FROM yara_rule_matches WHERE rule_name = ANY($1)',
+    [loaded.rules.map((rule) => rule.name)]
+  );
+  const matches = new Map(result.rows.map((row) => [row.rule_name, row]));
+
+  return {
+    rules: loaded.rules.map((rule) => ({
+      ...rule,
+      matchCount: parseInt(matches.get(rule.name)?.match_count || '0', 10),
+      lastMatchedAt: matches.get(rule.name)?.last_matched_at || null,
+    })),
+    loadedAt: loaded.loadedAt,
+  };
+}
+
+/**
+ * Create a scanner matching files against the YARA rules directory
+ */
+export function createYaraScanner(): Scanner {
+  return {
+    name: 'yara',
+
+    async scan(target) {
+      const rules = await loadRules();
+      if (rules.rules.length === 0) {
+        return { verdict: 'clean', findings: [], engineVersion: null, signatureVersion: null };
+      }
+
+      // Scans report the rules actually compiled, which may be older than the loaded ones
+      const { path: compiledPath, ruleSet } = await compileRules(rules);
+
+      if (!yaraVersion) {
+        const { stdout: version } = await execFileAsync(config.antivirus.yaraPath, ['--version']).catch((error: NodeJS.ErrnoException) => {
+          throw error.code === 'ENOENT' ? new ScannerUnavailableError(`YARA not found: ${error.message}`) : error;
+        });
+        yaraVersion = version.trim();
+      }
+
+      // Output is one "<namespace>:<rule> <path>" line per matching rule
+      const { stdout } = await withTempFile(await target.openStream(), (filePath) =>
+        execFileAsync(config.antivirus.yaraPath, [
+          '--compiled-rules',
+          '--print-namespace',
+          '--no-warnings',
+          `--timeout=${config.antivirus.yaraTimeout}`,
+          compiledPath,
+          filePath,
+        ], { maxBuffer: 1024 * 1024 })
+      );
+
+      const ruleNames = [...new Set(
+        stdout.split('\n').filter(Boolean).map((line) => line.split(' ')[0])
+      )];
+      const engineVersion = yaraVersion;
+      const signatureVersion = `${ruleSet.rules.length} rules, sha256:${ruleSet.digest.slice(0, 16)}`;
+
+      if (ruleNames.length === 0) {
+        return { verdict: 'clean', findings: [], engineVersion, signatureVersion };
+      }
+
+      await recordMatches(ruleNames);
+
+      return {
+        verdict: 'infected',
+        findings: ruleNames.map((name) => ({ name })),
+        engineVersion,
+        signatureVersion,
+        reason: `YARA rules matched: ${ruleNames.join(', ')}`,
+      };
+    },
+  };
+}
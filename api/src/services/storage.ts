@@ -1,127 +1,375 @@
-import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { randomUUID } from 'crypto';
+import { Readable, PassThrough, pipeline } from 'stream';
+import { createStorageDriver, UploadedPart, StoredObject } from './storageDrivers';
+import {
+  ObjectEncryption,
+  generateDataKey,
+  unwrapDataKey,
+  createEncryptStream,
+  createDecryptStream,
+  encryptBuffer,
+} from './encryption';
+import { signUrl } from './urlSigning';
 import config from '../config';
 import { logger } from '../utils/logger';
+import { buildContentDisposition } from '../utils/filename';
 
-// Create S3 client
-const s3Client = new S3Client({
-  region: config.s3.region,
-  endpoint: config.s3.endpoint,
-  credentials: {
-    accessKeyId: config.s3.accessKey,
-    secretAccessKey: config.s3.secretKey,
-  },
-  forcePathStyle: config.s3.forcePathStyle,
-});
+export { UploadedPart, ObjectEncryption };
+
+// API route serving decrypted downloads of encrypted objects
+export const DECRYPTED_DOWNLOAD_ROUTE = '/downloads';
+
+// Create the configured storage driver
+const driver = createStorageDriver();
 
 /**
- * Generate a presigned URL for uploading a file to S3
+ * Generate a unique storage key
+ */
+function generateStorageKey(): string {
+  return `${Date.now()}-${randomUUID()}`;
+}
+
+/**
+ * Generate a presigned URL for uploading a file to storage
+ *
+ * When a SHA-256 is given it is signed into the request, so storage rejects
+ * any body that does not match it.
  */
 export async function generateUploadUrl(
   contentType: string,
   size: number,
-  originalFilename: string
-): Promise<{ url: string; key: string }> {
-  // Generate a unique key for S3 storage
-  const key = `${Date.now()}-${randomUUID()}`;
-  
-  // Create a command to put an object in S3
-  const command = new PutObjectCommand({
-    Bucket: config.s3.bucket,
-    Key: key,
-    ContentType: contentType,
-    ContentLength: size,
-    Metadata: {
-      'original-filename': encodeURIComponent(originalFilename),
-    },
-  });
-  
+  originalFilename: string,
+  sha256?: string
+): Promise<{ url: string; key: string; headers: Record<string, string> }> {
+  // Generate a unique key for storage
+  const key = generateStorageKey();
+
   // Generate a presigned URL for uploading
-  const url = await getSignedUrl(s3Client, command, {
-    expiresIn: config.fileUpload.presignedUrlExpiry,
-  });
+  const { url, headers } = await driver.generateUploadUrl(key, contentType, size, originalFilename, sha256);
   
-  return { url, key };
+  return { url, key, headers };
 }
 
 /**
- * Generate a presigned URL for downloading a file from S3
+ * Generate a presigned URL for downloading a file from storage
+ *
+ * Encrypted objects can't be served by storage directly, so they get a signed
+ * URL of the API, which decrypts them while streaming.
  */
 export async function generateDownloadUrl(
   key: string,
   originalFilename: string,
-  forceAttachment: boolean = true
+  forceAttachment: boolean = true,
+  encryption?: ObjectEncryption & { contentType: string }
 ): Promise<string> {
-  // Create a command to get an object from S3
-  const command = new GetObjectCommand({
-    Bucket: config.s3.bucket,
-    Key: key,
-    ResponseContentDisposition: forceAttachment
-      ? `attachment; filename="${encodeURIComponent(originalFilename)}"`
-      : `inline; filename="${encodeURIComponent(originalFilename)}"`,
-  });
+  const contentDisposition = buildContentDisposition(forceAttachment ? 'attachment' : 'inline', originalFilename);
+
+  if (encryption) {
+    return signUrl('GET', DECRYPTED_DOWNLOAD_ROUTE, key, {
+      disposition: contentDisposition,
+      contentType: encryption.contentType,
+      keyId: encryption.keyId,
+      wrappedKey: encryption.wrappedKey,
+    });
+  }
   
   // Generate a presigned URL for downloading
-  const url = await getSignedUrl(s3Client, command, {
-    expiresIn: config.fileUpload.presignedUrlExpiry,
-  });
-  
-  return url;
+  return driver.generateDownloadUrl(key, contentDisposition);
 }
 
 /**
- * Download a file from S3 to a local buffer
+ * Get the size and content type of an object in storage, or null if it does not exist
  */
-export async function downloadFileFromS3(key: string): Promise<Buffer> {
+export async function getObjectInfo(
+  key: string
+): Promise<{ size: number; contentType: string | null } | null> {
   try {
-    // Create a command to get an object from S3
-    const command = new GetObjectCommand({
-      Bucket: config.s3.bucket,
-      Key: key,
-    });
-    
-    // Get the object from S3
-    const response = await s3Client.send(command);
-    
-    // Read the object body
-    const chunks: Uint8Array[] = [];
-    const stream = response.Body as any;
-    
-    for await (const chunk of stream) {
-      chunks.push(chunk);
-    }
-    
-    return Buffer.concat(chunks);
+    return await driver.getObjectInfo(key);
   } catch (error) {
-    logger.error(`Error downloading file from S3: ${key}`, error);
+    logger.error(`Error getting object info from storage: ${key}`, error);
+    throw new Error(`Failed to get object info from storage: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Stream a file from storage, optionally only an inclusive byte range of it
+ *
+ * Encrypted objects are decrypted transparently.
+ */
+export async function getObjectStream(
+  key: string,
+  range?: { start: number; end: number },
+  encryption?: ObjectEncryption
+): Promise<Readable> {
+  let source: Readable;
+
+  try {
+    source = await driver.getObjectStream(key, encryption ? undefined : range);
+  } catch (error) {
+    logger.error(`Error streaming file from storage: ${key}`, error);
     throw new Error(`Failed to download file from storage: ${(error as Error).message}`);
   }
+
+  if (!encryption) {
+    return source;
+  }
+
+  const plaintext = source.pipe(createDecryptStream(unwrapDataKey(encryption)));
+  source.on('error', (error) => plaintext.destroy(error));
+
+  if (!range) {
+    return plaintext;
+  }
+
+  // Ranges are cut from the decrypted stream, which is only read as far as needed
+  return Readable.from(
+    (async function* () {
+      let offset = 0;
+
+      for await (const chunk of plaintext) {
+        const start = Math.max(range.start - offset, 0);
+        const end = Math.min(range.end + 1 - offset, chunk.length);
+        offset += chunk.length;
+
+        if (start < end) {
+          yield chunk.subarray(start, end);
+        }
+        if (offset > range.end) {
+          break;
+        }
+      }
+
+      source.destroy();
+    })()
+  );
 }
 
 /**
- * Upload a file to S3
+ * Upload a file to storage
  */
 export async function uploadFileToS3(
   key: string,
   buffer: Buffer,
   contentType: string,
-  metadata: Record<string, string> = {}
+  metadata: Record<string, string> = {},
+  encryption?: ObjectEncryption
 ): Promise<void> {
   try {
-    // Create a command to put an object in S3
-    const command = new PutObjectCommand({
-      Bucket: config.s3.bucket,
-      Key: key,
-      Body: buffer,
-      ContentType: contentType,
-      Metadata: metadata,
-    });
-    
-    // Upload the object to S3
-    await s3Client.send(command);
+    if (encryption) {
+      const encrypted = encryptBuffer(unwrapDataKey(encryption), buffer);
+      await driver.putObject(key, encrypted, 'application/octet-stream', metadata);
+      return;
+    }
+
+    await driver.putObject(key, buffer, contentType, metadata);
+  } catch (error) {
+    logger.error(`Error uploading file to storage: ${key}`, error);
+    throw new Error(`Failed to upload file to storage: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Upload a stream to storage without holding all of it in memory
+ *
+ * The body goes through a pipeline, so errors it raises before the upload
+ * starts reading it fail the upload instead of going unhandled.
+ */
+export async function uploadObjectStream(
+  key: string,
+  body: Readable,
+  contentType: string,
+  encryption?: ObjectEncryption
+): Promise<void> {
+  const source = pipeline(
+    body,
+    encryption ? createEncryptStream(unwrapDataKey(encryption)) : new PassThrough(),
+    () => undefined
+  );
+
+  try {
+    await uploadStream(key, source, encryption ? 'application/octet-stream' : contentType);
   } catch (error) {
-    logger.error(`Error uploading file to S3: ${key}`, error);
+    logger.error(`Error uploading stream to storage: ${key}`, error);
     throw new Error(`Failed to upload file to storage: ${(error as Error).message}`);
   }
 }
+
+/**
+ * Upload a stream to storage as a multipart upload
+ *
+ * Only one part is held in memory at a time.
+ */
+async function uploadStream(key: string, body: Readable, contentType: string): Promise<void> {
+  const partSize = config.fileUpload.multipartPartSize;
+  const uploadId = await driver.createMultipartUpload(key, contentType, '');
+
+  try {
+    const parts: { partNumber: number; etag: string }[] = [];
+    let chunks: Buffer[] = [];
+    let buffered = 0;
+
+    const flushPart = async (data: Buffer) => {
+      const partNumber = parts.length + 1;
+      const etag = await driver.uploadPart(key, uploadId, partNumber, data);
+      parts.push({ partNumber, etag });
+    };
+
+    for await (const chunk of body) {
+      chunks.push(chunk);
+      buffered += chunk.length;
+
+      if (buffered >= partSize) {
+        const data = Buffer.concat(chunks, buffered);
+        await flushPart(data.subarray(0, partSize));
+        chunks = [data.subarray(partSize)];
+        buffered = data.length - partSize;
+      }
+    }
+
+    if (buffered > 0 || parts.length === 0) {
+      await flushPart(Buffer.concat(chunks, buffered));
+    }
+
+    await driver.completeMultipartUpload(key, uploadId, parts);
+  } catch (error) {
+    await driver.abortMultipartUpload(key, uploadId).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Store an encrypted copy of a plaintext object under a new key
+ *
+ * The plaintext object is left in place for the caller to delete.
+ */
+export async function encryptObject(key: string): Promise<{ key: string; encryption: ObjectEncryption }> {
+  const encryptedKey = generateStorageKey();
+  const { dataKey, encryption } = generateDataKey();
+
+  try {
+    const source = await driver.getObjectStream(key);
+    const ciphertext = source.pipe(createEncryptStream(dataKey));
+    source.on('error', (error) => ciphertext.destroy(error));
+
+    await uploadStream(encryptedKey, ciphertext, 'application/octet-stream');
+  } catch (error) {
+    logger.error(`Error encrypting object: ${key}`, error);
+    throw new Error(`Failed to encrypt object in storage: ${(error as Error).message}`);
+  }
+
+  return { key: encryptedKey, encryption };
+}
+
+/**
+ * Create a multipart upload in storage
+ */
+export async function createMultipartUpload(
+  contentType: string,
+  originalFilename: string
+): Promise<{ uploadId: string; key: string }> {
+  const key = generateStorageKey();
+
+  try {
+    const uploadId = await driver.createMultipartUpload(key, contentType, originalFilename);
+    return { uploadId, key };
+  } catch (error) {
+    logger.error(`Error creating multipart upload: ${key}`, error);
+    throw new Error(`Failed to create multipart upload: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Generate a presigned URL for uploading a single part of a multipart upload
+ */
+export async function generateUploadPartUrl(
+  key: string,
+  uploadId: string,
+  partNumber: number
+): Promise<string> {
+  return driver.generateUploadPartUrl(key, uploadId, partNumber);
+}
+
+/**
+ * Upload a single part of a multipart upload from the server
+ */
+export async function uploadPart(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  body: Buffer
+): Promise<string> {
+  try {
+    return await driver.uploadPart(key, uploadId, partNumber, body);
+  } catch (error) {
+    logger.error(`Error uploading part ${partNumber} of multipart upload: ${key}`, error);
+    throw new Error(`Failed to upload part: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * List the parts already uploaded for a multipart upload
+ */
+export async function listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+  try {
+    return await driver.listParts(key, uploadId);
+  } catch (error) {
+    logger.error(`Error listing parts for multipart upload: ${key}`, error);
+    throw new Error(`Failed to list uploaded parts: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Complete a multipart upload by assembling its parts
+ */
+export async function completeMultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: { partNumber: number; etag: string }[]
+): Promise<void> {
+  try {
+    await driver.completeMultipartUpload(key, uploadId, parts);
+  } catch (error) {
+    logger.error(`Error completing multipart upload: ${key}`, error);
+    throw new Error(`Failed to complete multipart upload: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Abort a multipart upload and discard its parts
+ */
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  try {
+    await driver.abortMultipartUpload(key, uploadId);
+  } catch (error) {
+    logger.error(`Error aborting multipart upload: ${key}`, error);
+    throw new Error(`Failed to abort multipart upload: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * List a page of objects in storage
+ */
+export async function listObjects(
+  continuationToken?: string
+): Promise<{ objects: StoredObject[]; nextContinuationToken?: string }> {
+  try {
+    return await driver.listObjects(continuationToken);
+  } catch (error) {
+    logger.error('Error listing objects in storage', error);
+    throw new Error(`Failed to list objects in storage: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Delete objects from storage
+ *
+ * Keys that do not exist are ignored.
+ */
+export async function deleteObjects(keys: string[]): Promise<void> {
+  try {
+    await driver.deleteObjects(keys);
+  } catch (error) {
+    logger.error('Error deleting objects from storage', error);
+    throw new Error(`Failed to delete objects from storage: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,20 @@
+import config from '../../config';
+import { createS3StorageDriver } from './s3';
+import { createLocalStorageDriver } from './local';
+import { StorageDriver } from './types';
+
+export * from './types';
+
+/**
+ * Create the storage driver selected in the configuration
+ */
+export function createStorageDriver(): StorageDriver {
+  switch (config.storage.driver) {
+    case 's3':
+      return createS3StorageDriver();
+    case 'local':
+      return createLocalStorageDriver();
+    default:
+      throw new Error(`Unknown storage driver: ${config.storage.driver}`);
+  }
+}
@@ -0,0 +1,384 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import config from '../../config';
+import { signUrl } from '../urlSigning';
+import { StorageDriver, StoredObject, UploadedPart } from './types';
+
+// Layout of the storage directory
+const root = path.resolve(config.storage.localPath);
+const objectsDir = path.join(root, 'objects');
+const metadataDir = path.join(root, 'metadata');
+const multipartDir = path.join(root, 'multipart');
+const tmpDir = path.join(root, 'tmp');
+
+// Objects listed per page, matching S3
+const LIST_PAGE_SIZE = 1000;
+
+// API route serving signed object URLs
+export const LOCAL_STORAGE_ROUTE = '/storage';
+
+/**
+ * Metadata stored next to an object
+ */
+interface ObjectMetadata {
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Resolve a path below a directory, rejecting keys that escape it
+ */
+function resolveBelow(dir: string, key: string): string {
+  const resolved = path.resolve(dir, key);
+  if (!resolved.startsWith(dir + path.sep)) {
+    throw new Error('Invalid storage key');
+  }
+  return resolved;
+}
+
+function objectPath(key: string): string {
+  return resolveBelow(objectsDir, key);
+}
+
+function metadataPath(key: string): string {
+  return `${resolveBelow(metadataDir, key)}.json`;
+}
+
+function uploadDir(uploadId: string): string {
+  return resolveBelow(multipartDir, uploadId);
+}
+
+function partPath(uploadId: string, partNumber: number): string {
+  return path.join(uploadDir(uploadId), `part-${partNumber}`);
+}
+
+/**
+ * Write a stream to a temporary file, returning its size and digests
+ */
+async function writeTempFile(
+  body: Readable,
+  maxSize: number
+): Promise<{ tmpPath: string; size: number; sha256: string; md5: string }> {
+  await fs.mkdir(tmpDir, { recursive: true });
+
+  const tmpPath = path.join(tmpDir, randomUUID());
+  const sha256 = createHash('sha256');
+  const md5 = createHash('md5');
+  let size = 0;
+
+  const digest = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize) {
+        callback(new Error('Upload size mismatch'));
+        return;
+      }
+      sha256.update(chunk);
+      md5.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(body, digest, createWriteStream(tmpPath));
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+
+  return { tmpPath, size, sha256: sha256.digest('hex'), md5: md5.digest('hex') };
+}
+
+/**
+ * Move a file into place as an object and record its metadata
+ */
+async function storeObject(key: string, filePath: string, metadata: ObjectMetadata): Promise<void> {
+  const target = objectPath(key);
+  const targetMetadata = metadataPath(key);
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.mkdir(path.dirname(targetMetadata), { recursive: true });
+
+  await fs.writeFile(targetMetadata, JSON.stringify(metadata));
+  await fs.rename(filePath, target);
+}
+
+/**
+ * Store an object uploaded through a signed upload URL
+ */
+export async function writeSignedObject(
+  key: string,
+  params: Record<string, string>,
+  contentType: string | undefined,
+  body: Readable
+): Promise<void> {
+  // Signed values must match the request just like S3 signed headers
+  if (contentType !== params.contentType) {
+    throw new Error('Content type mismatch');
+  }
+
+  const expectedSize = Number(params.size);
+  const upload = await writeTempFile(body, expectedSize);
+
+  if (upload.size !== expectedSize) {
+    await fs.rm(upload.tmpPath, { force: true });
+    throw new Error('Upload size mismatch');
+  }
+
+  if (params.sha256 && upload.sha256 !== params.sha256) {
+    await fs.rm(upload.tmpPath, { force: true });
+    throw new Error('Upload checksum mismatch');
+  }
+
+  await storeObject(key, upload.tmpPath, {
+    contentType: params.contentType,
+    metadata: { 'original-filename': params.originalFilename || '' },
+  });
+}
+
+/**
+ * Store a part uploaded through a signed part upload URL
+ */
+export async function writeSignedPart(params: Record<string, string>, body: Readable): Promise<string> {
+  const partNumber = Number(params.partNumber);
+
+  // The upload must still be in progress
+  await fs.access(uploadDir(params.uploadId)).catch(() => {
+    throw new Error('Multipart upload not found');
+  });
+
+  const upload = await writeTempFile(body, config.fileUpload.maxSize);
+  const etag = `"${upload.md5}"`;
+
+  await fs.writeFile(`${partPath(params.uploadId, partNumber)}.etag`, etag);
+  await fs.rename(upload.tmpPath, partPath(params.uploadId, partNumber));
+
+  return etag;
+}
+
+/**
+ * Open an object for streaming it to a client
+ */
+export async function openObject(
+  key: string
+): Promise<{ stream: Readable; size: number; contentType: string }> {
+  const info = await readObjectInfo(key);
+  if (!info) {
+    throw new Error('Object not found');
+  }
+
+  return {
+    stream: createReadStream(objectPath(key)),
+    size: info.size,
+    contentType: info.contentType || 'application/octet-stream',
+  };
+}
+
+/**
+ * Get the size and content type of an object
+ */
+async function readObjectInfo(key: string): Promise<{ size: number; contentType: string | null } | null> {
+  try {
+    const stat = await fs.stat(objectPath(key));
+    const metadata = await fs.readFile(metadataPath(key), 'utf8')
+      .then((data) => JSON.parse(data) as ObjectMetadata)
+      .catch(() => null);
+
+    return { size: stat.size, contentType: metadata?.contentType || null };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the parts stored for a multipart upload
+ */
+async function listUploadParts(uploadId: string): Promise<UploadedPart[]> {
+  const entries = await fs.readdir(uploadDir(uploadId));
+  const parts: UploadedPart[] = [];
+
+  for (const entry of entries) {
+    const match = /^part-(\d+)$/.exec(entry);
+    if (!match) {
+      continue;
+    }
+
+    const partNumber = parseInt(match[1], 10);
+    const stat = await fs.stat(partPath(uploadId, partNumber));
+    const etag = await fs.readFile(`${partPath(uploadId, partNumber)}.etag`, 'utf8');
+
+    parts.push({ partNumber, etag, size: stat.size });
+  }
+
+  return parts.sort((a, b) => a.partNumber - b.partNumber);
+}
+
+/**
+ * List all object keys below a directory
+ */
+async function walkObjects(dir: string, prefix: string = ''): Promise<StoredObject[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch((error) => {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  });
+
+  const objects: StoredObject[] = [];
+
+  for (const entry of entries) {
+    const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      objects.push(...(await walkObjects(path.join(dir, entry.name), key)));
+    } else {
+      const stat = await fs.stat(path.join(dir, entry.name));
+      objects.push({ key, lastModified: stat.mtime });
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Create a driver storing objects on the local filesystem
+ *
+ * Clients upload and download through signed URLs served by the API itself.
+ */
+export function createLocalStorageDriver(): StorageDriver {
+  return {
+    async generateUploadUrl(key, contentType, size, originalFilename, sha256) {
+      const params: Record<string, string> = {
+        contentType,
+        size: String(size),
+        originalFilename,
+      };
+      if (sha256) {
+        params.sha256 = sha256;
+      }
+
+      return {
+        url: signUrl('PUT', LOCAL_STORAGE_ROUTE, key, params),
+        headers: { 'Content-Type': contentType },
+      };
+    },
+
+    async generateDownloadUrl(key, contentDisposition) {
+      return signUrl('GET', LOCAL_STORAGE_ROUTE, key, { disposition: contentDisposition });
+    },
+
+    async getObjectInfo(key) {
+      return readObjectInfo(key);
+    },
+
+    async getObjectStream(key, range) {
+      // Open eagerly so that a missing object fails here rather than mid-stream
+      const handle = await fs.open(objectPath(key), 'r');
+      return handle.createReadStream(range ? { start: range.start, end: range.end } : undefined);
+    },
+
+    async putObject(key, body, contentType, metadata) {
+      await fs.mkdir(tmpDir, { recursive: true });
+
+      const tmpPath = path.join(tmpDir, randomUUID());
+      await fs.writeFile(tmpPath, body);
+      await storeObject(key, tmpPath, { contentType, metadata });
+    },
+
+    async createMultipartUpload(key, contentType, originalFilename) {
+      const uploadId = randomUUID();
+
+      await fs.mkdir(uploadDir(uploadId), { recursive: true });
+      await fs.writeFile(
+        path.join(uploadDir(uploadId), 'upload.json'),
+        JSON.stringify({ key, contentType, metadata: { 'original-filename': originalFilename } })
+      );
+
+      return uploadId;
+    },
+
+    async generateUploadPartUrl(key, uploadId, partNumber) {
+      return signUrl('PUT', LOCAL_STORAGE_ROUTE, key, { uploadId, partNumber: String(partNumber) });
+    },
+
+    async uploadPart(_key, uploadId, partNumber, body) {
+      return writeSignedPart({ uploadId, partNumber: String(partNumber) }, Readable.from([body]));
+    },
+
+    async listParts(_key, uploadId) {
+      return listUploadParts(uploadId);
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const upload = JSON.parse(
+        await fs.readFile(path.join(uploadDir(uploadId), 'upload.json'), 'utf8')
+      );
+      const uploadedParts = new Map(
+        (await listUploadParts(uploadId)).map((part) => [part.partNumber, part.etag])
+      );
+
+      const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+      for (const part of sortedParts) {
+        if (uploadedParts.get(part.partNumber) !== part.etag) {
+          throw new Error(`Invalid part: ${part.partNumber}`);
+        }
+      }
+
+      // Concatenate the parts into the final object
+      await fs.mkdir(tmpDir, { recursive: true });
+      const tmpPath = path.join(tmpDir, randomUUID());
+
+      try {
+        const output = createWriteStream(tmpPath);
+        await pipeline(
+          Readable.from(
+            (async function* () {
+              for (const part of sortedParts) {
+                yield* createReadStream(partPath(uploadId, part.partNumber));
+              }
+            })()
+          ),
+          output
+        );
+
+        await storeObject(key, tmpPath, { contentType: upload.contentType, metadata: upload.metadata });
+      } catch (error) {
+        await fs.rm(tmpPath, { force: true });
+        throw error;
+      }
+
+      await fs.rm(uploadDir(uploadId), { recursive: true, force: true });
+    },
+
+    async abortMultipartUpload(_key, uploadId) {
+      await fs.rm(uploadDir(uploadId), { recursive: true, force: true });
+    },
+
+    async listObjects(continuationToken) {
+      // Keys are listed in order and the token is the last key of the previous page
+      const objects = (await walkObjects(objectsDir))
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+        .filter((object) => !continuationToken || object.key > continuationToken);
+
+      const page = objects.slice(0, LIST_PAGE_SIZE);
+
+      return {
+        objects: page,
+        nextContinuationToken: objects.length > LIST_PAGE_SIZE ? page[page.length - 1].key : undefined,
+      };
+    },
+
+    async deleteObjects(keys) {
+      for (const key of keys) {
+        await fs.rm(objectPath(key), { force: true });
+        await fs.rm(metadataPath(key), { force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,260 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import config from '../../config';
+import { StorageDriver, UploadedPart } from './types';
+
+/**
+ * Create a driver storing objects in an S3-compatible bucket
+ */
+export function createS3StorageDriver(): StorageDriver {
+  // Create S3 client
+  const s3Client = new S3Client({
+    region: config.s3.region,
+    endpoint: config.s3.endpoint,
+    credentials: {
+      accessKeyId: config.s3.accessKey,
+      secretAccessKey: config.s3.secretKey,
+    },
+    forcePathStyle: config.s3.forcePathStyle,
+  });
+
+  const bucket = config.s3.bucket;
+
+  return {
+    async generateUploadUrl(key, contentType, size, originalFilename, sha256) {
+      const checksum = sha256 ? Buffer.from(sha256, 'hex').toString('base64') : undefined;
+
+      // Create a command to put an object in S3
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType,
+        ContentLength: size,
+        ChecksumSHA256: checksum,
+        Metadata: {
+          'original-filename': encodeURIComponent(originalFilename),
+        },
+      });
+
+      // Generate a presigned URL for uploading
+      const url = await getSignedUrl(s3Client, command, {
+        expiresIn: config.fileUpload.presignedUrlExpiry,
+        // Keep the checksum a signed header the client must send with the body
+        unhoistableHeaders: checksum ? new Set(['x-amz-checksum-sha256']) : undefined,
+      });
+
+      // Headers the client has to send with the upload
+      const headers: Record<string, string> = { 'Content-Type': contentType };
+      if (checksum) {
+        headers['x-amz-checksum-sha256'] = checksum;
+      }
+
+      return { url, headers };
+    },
+
+    async generateDownloadUrl(key, contentDisposition) {
+      const command = new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ResponseContentDisposition: contentDisposition,
+      });
+
+      return getSignedUrl(s3Client, command, {
+        expiresIn: config.fileUpload.presignedUrlExpiry,
+      });
+    },
+
+    async getObjectInfo(key) {
+      try {
+        const response = await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+
+        return {
+          size: response.ContentLength || 0,
+          contentType: response.ContentType || null,
+        };
+      } catch (error) {
+        if ((error as any).name === 'NotFound' || (error as any).$metadata?.httpStatusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getObjectStream(key, range) {
+      const response = await s3Client.send(
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      );
+
+      return response.Body as Readable;
+    },
+
+    async putObject(key, body, contentType, metadata) {
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          Metadata: metadata,
+        })
+      );
+    },
+
+    async createMultipartUpload(key, contentType, originalFilename) {
+      const response = await s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType,
+          Metadata: {
+            'original-filename': encodeURIComponent(originalFilename),
+          },
+        })
+      );
+
+      if (!response.UploadId) {
+        throw new Error('No upload ID returned');
+      }
+
+      return response.UploadId;
+    },
+
+    async generateUploadPartUrl(key, uploadId, partNumber) {
+      const command = new UploadPartCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      });
+
+      return getSignedUrl(s3Client, command, {
+        expiresIn: config.fileUpload.presignedUrlExpiry,
+      });
+    },
+
+    async uploadPart(key, uploadId, partNumber, body) {
+      const response = await s3Client.send(
+        new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: body.length,
+        })
+      );
+
+      return response.ETag as string;
+    },
+
+    async listParts(key, uploadId) {
+      const parts: UploadedPart[] = [];
+      let partNumberMarker: string | undefined;
+
+      // S3 returns at most 1000 parts per page
+      do {
+        const response = await s3Client.send(
+          new ListPartsCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          })
+        );
+
+        for (const part of response.Parts || []) {
+          parts.push({
+            partNumber: part.PartNumber as number,
+            etag: part.ETag as string,
+            size: part.Size || 0,
+          });
+        }
+
+        partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+
+      return parts;
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      await s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: [...parts]
+              .sort((a, b) => a.partNumber - b.partNumber)
+              .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+          },
+        })
+      );
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await s3Client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+        })
+      );
+    },
+
+    async listObjects(continuationToken) {
+      const response = await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: bucket,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      return {
+        objects: (response.Contents || []).map((object) => ({
+          key: object.Key as string,
+          lastModified: object.LastModified as Date,
+        })),
+        nextContinuationToken: response.IsTruncated ? response.NextContinuationToken : undefined,
+      };
+    },
+
+    async deleteObjects(keys) {
+      // S3 deletes at most 1000 keys per request
+      for (let i = 0; i < keys.length; i += 1000) {
+        const batch = keys.slice(i, i + 1000);
+
+        const response = await s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucket,
+            Delete: {
+              Objects: batch.map((key) => ({ Key: key })),
+              Quiet: true,
+            },
+          })
+        );
+
+        if (response.Errors && response.Errors.length > 0) {
+          const failedKeys = response.Errors.map((error) => `${error.Key} (${error.Code})`);
+          throw new Error(`Failed to delete ${failedKeys.length} objects: ${failedKeys.join(', ')}`);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+
+/**
+ * Uploaded part of a multipart upload
+ */
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Object listed in storage
+ */
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+/**
+ * Backend that stores file objects
+ *
+ * Drivers throw on failure; logging and error wrapping is done by the storage
+ * service in front of them.
+ */
+export interface StorageDriver {
+  /** Signed URL the client uploads an object to, with the headers it must send */
+  generateUploadUrl(
+    key: string,
+    contentType: string,
+    size: number,
+    originalFilename: string,
+    sha256?: string
+  ): Promise<{ url: string; headers: Record<string, string> }>;
+
+  /** Signed URL the client downloads an object from */
+  generateDownloadUrl(key: string, contentDisposition: string): Promise<string>;
+
+  /** Size and content type of an object, or null if it does not exist */
+  getObjectInfo(key: string): Promise<{ size: number; contentType: string | null } | null>;
+
+  /** Stream an object, or the inclusive byte range of it */
+  getObjectStream(key: string, range?: { start: number; end: number }): Promise<Readable>;
+
+  putObject(key: string, body: Buffer, contentType: string, metadata: Record<string, string>): Promise<void>;
+
+  createMultipartUpload(key: string, contentType: string, originalFilename: string): Promise<string>;
+
+  /** Signed URL the client uploads a single part to */
+  generateUploadPartUrl(key: string, uploadId: string, partNumber: number): Promise<string>;
+
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string>;
+
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: { partNumber: number; etag: string }[]
+  ): Promise<void>;
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+  listObjects(
+    continuationToken?: string
+  ): Promise<{ objects: StoredObject[]; nextContinuationToken?: string }>;
+
+  /** Delete objects, ignoring keys that do not exist */
+  deleteObjects(keys: string[]): Promise<void>;
+}
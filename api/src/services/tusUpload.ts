@@ -0,0 +1,425 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { query, getClient } from './db';
+import {
+  createMultipartUpload,
+  uploadPart,
+  listUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  getObjectStream,
+  uploadFileToS3,
+  deleteObjects,
+  getObjectInfo,
+} from './storage';
+import { generateDataKey, getFileEncryption } from './encryption';
+import { completeFileUpload } from './fileManager';
+import { reserveUploadQuota } from './quota';
+import { calculatePartSize } from './multipartUpload';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { sanitizeFileName } from '../utils/filename';
+import { auditLog } from './audit';
+
+// Prefix under which the tails of tus uploads in progress live
+const TUS_TAIL_PREFIX = 'tus-tails/';
+
+/**
+ * tus upload state
+ */
+export interface TusUpload {
+  fileId: string;
+  uploadOffset: number;
+  uploadLength: number;
+  expiresAt: Date;
+}
+
+/**
+ * Parse a tus Upload-Metadata header into key/value pairs
+ */
+export function parseTusMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Row of a tus upload joined with its file
+ */
+interface TusUploadRow {
+  file_id: string;
+  upload_id: string;
+  upload_length: string;
+  upload_offset: string;
+  part_size: string;
+  next_part_number: number;
+  expires_at: Date;
+  key_id: string | null;
+  wrapped_key: string | null;
+  storage_key: string;
+  original_name: string;
+}
+
+/**
+ * Key of the object holding the bytes received past the last uploaded part
+ *
+ * The key includes the offset, so a PATCH that fails before committing never
+ * overwrites the tail the committed state points at.
+ */
+function tusTailKey(storageKey: string, uploadOffset: number): string {
+  return `${TUS_TAIL_PREFIX}${storageKey}/${uploadOffset}`;
+}
+
+/**
+ * Number of bytes received past the last uploaded part
+ */
+function tusTailSize(upload: TusUploadRow): number {
+  return parseInt(upload.upload_offset, 10) - (upload.next_part_number - 1) * parseInt(upload.part_size, 10);
+}
+
+/**
+ * Take the lease on a tus upload owned by the user
+ *
+ * The lease is a short update rather than a row lock, so no connection is held
+ * while the request body streams in.
+ */
+async function acquireTusUpload(fileId: string, userId: string): Promise<{ upload: TusUploadRow; lockToken: string }> {
+  const lockToken = randomUUID();
+  const result = await query(
+    `UPDATE tus_uploads t
+     SET lock_token = $1, locked_until = NOW() + $2 * INTERVAL '1 second'
+     FROM files f
+     WHERE f.id = t.file_id AND t.file_id = $3 AND f.owner_id = $4 AND f.status = $5
+       AND t.expires_at > NOW() AND (t.locked_until IS NULL OR t.locked_until <= NOW())
+     RETURNING t.*, f.storage_key, f.original_name`,
+    [lockToken, config.fileUpload.tusLockTimeout, fileId, userId, 'pending']
+  );
+
+  if (result.rowCount === 0) {
+    // Throws if the upload is missing or expired, otherwise another request holds it
+    await getTusUpload(fileId, userId);
+    throw new Error('Upload is locked by another request');
+  }
+
+  return { upload: result.rows[0] as TusUploadRow, lockToken };
+}
+
+/**
+ * Extend the lease on a tus upload, failing if another request took it over
+ */
+async function renewTusUpload(fileId: string, lockToken: string): Promise<void> {
+  const result = await query(
+    `UPDATE tus_uploads SET locked_until = NOW() + $1 * INTERVAL '1 second'
+     WHERE file_id = $2 AND lock_token = $3`,
+    [config.fileUpload.tusLockTimeout, fileId, lockToken]
+  );
+
+  if (result.rowCount === 0) {
+    throw new Error('Upload is locked by another request');
+  }
+}
+
+/**
+ * Give up the lease on a tus upload without recording progress
+ */
+async function releaseTusUpload(fileId: string, lockToken: string): Promise<void> {
+  await query(
+    'UPDATE tus_uploads SET lock_token = NULL, locked_until = NULL WHERE file_id = $1 AND lock_token = $2',
+    [fileId, lockToken]
+  );
+}
+
+/**
+ * Create a tus upload
+ */
+export async function createTusUpload(
+  userId: string,
+  uploadLength: number,
+  metadata: Record<string, string>
+): Promise<TusUpload> {
+  const fileName = metadata.filename || metadata.name || 'upload';
+  const sanitizedName = sanitizeFileName(fileName);
+  const contentType = metadata.filetype || metadata.type || 'application/octet-stream';
+
+  // Chunks are buffered into S3 multipart parts as they arrive
+  const { uploadId, key } = await createMultipartUpload(contentType, sanitizedName);
+
+  const fileId = randomUUID();
+  const expiresAt = new Date(Date.now() + config.fileUpload.tusUploadExpiry * 1000);
+
+  // Tails sit in storage between requests, so they get a data key of their own
+  const encryption = config.encryption.enabled ? generateDataKey().encryption : undefined;
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    // Same size and quota checks as regular uploads, reserved until the upload expires
+    await reserveUploadQuota(client, userId, fileId, uploadLength, config.fileUpload.tusUploadExpiry);
+
+    await client.query(
+      'INSERT INTO files (id, owner_id, original_name, sanitized_name, storage_key, size_bytes, declared_mime) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+      [fileId, userId, fileName, sanitizedName, key, uploadLength, contentType]
+    );
+
+    await client.query(
+      `INSERT INTO tus_uploads (file_id, upload_id, upload_length, part_size, metadata, expires_at, key_id, wrapped_key)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        fileId,
+        uploadId,
+        uploadLength,
+        calculatePartSize(uploadLength),
+        JSON.stringify(metadata),
+        expiresAt,
+        encryption?.keyId ?? null,
+        encryption?.wrappedKey ?? null,
+      ]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Error creating tus upload:', error);
+
+    // Don't leave an orphaned upload in S3
+    await abortMultipartUpload(key, uploadId).catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Log tus upload creation
+  await auditLog(
+    userId,
+    'FILE_TUS_UPLOAD_CREATED',
+    'file',
+    fileId,
+    { fileName, fileSize: uploadLength, contentType }
+  );
+
+  return { fileId, uploadOffset: 0, uploadLength, expiresAt };
+}
+
+/**
+ * Get the state of a tus upload
+ */
+export async function getTusUpload(fileId: string, userId: string): Promise<TusUpload> {
+  const result = await query(
+    `SELECT t.*
+     FROM tus_uploads t
+     JOIN files f ON f.id = t.file_id
+     WHERE t.file_id = $1 AND f.owner_id = $2 AND f.status = $3`,
+    [fileId, userId, 'pending']
+  );
+
+  if (result.rowCount === 0) {
+    throw new Error('Upload not found');
+  }
+
+  const upload = result.rows[0];
+  if (new Date(upload.expires_at) <= new Date()) {
+    throw new Error('Upload expired');
+  }
+
+  return {
+    fileId,
+    uploadOffset: parseInt(upload.upload_offset, 10),
+    uploadLength: parseInt(upload.upload_length, 10),
+    expiresAt: upload.expires_at,
+  };
+}
+
+/**
+ * Append a chunk to a tus upload
+ *
+ * Bytes are buffered until a full part is available; whatever is left over at
+ * the end of the request is stored as the upload's tail until the next PATCH.
+ * The new offset is only committed once parts and tail are in storage.
+ */
+export async function appendTusUpload(
+  fileId: string,
+  userId: string,
+  offset: number,
+  body: Readable
+): Promise<TusUpload> {
+  const { upload, lockToken } = await acquireTusUpload(fileId, userId);
+  const uploadLength = parseInt(upload.upload_length, 10);
+  const committedOffset = parseInt(upload.upload_offset, 10);
+  const tailEncryption = getFileEncryption(upload);
+  let uploadOffset = committedOffset;
+  let partNumber = upload.next_part_number;
+
+  try {
+    if (offset !== uploadOffset) {
+      throw new Error(`Upload offset mismatch: expected ${uploadOffset}, got ${offset}`);
+    }
+
+    const partSize = parseInt(upload.part_size, 10);
+    let chunks: Buffer[] = [];
+    let buffered = 0;
+    let renewedAt = Date.now();
+
+    if (tusTailSize(upload) > 0) {
+      for await (const chunk of await getObjectStream(tusTailKey(upload.storage_key, committedOffset), undefined, tailEncryption)) {
+        chunks.push(chunk);
+        buffered += chunk.length;
+      }
+    }
+
+    const flushPart = async (length: number) => {
+      const data = Buffer.concat(chunks, buffered);
+      await renewTusUpload(fileId, lockToken);
+      await uploadPart(upload.storage_key, upload.upload_id, partNumber, data.subarray(0, length));
+      renewedAt = Date.now();
+      partNumber += 1;
+      chunks = data.length > length ? [data.subarray(length)] : [];
+      buffered = data.length - length;
+    };
+
+    const chunkIterator = body[Symbol.asyncIterator]();
+
+    for (;;) {
+      let next: IteratorResult<Buffer>;
+      try {
+        next = await chunkIterator.next();
+      } catch (error) {
+        // Keep what was received before the connection dropped so the client can resume
+        logger.warn(`tus upload ${fileId} interrupted at offset ${uploadOffset}:`, error);
+        break;
+      }
+
+      if (next.done) {
+        break;
+      }
+
+      const data = next.value;
+      if (uploadOffset + data.length > uploadLength) {
+        throw new Error('Upload length exceeded');
+      }
+
+      chunks.push(data);
+      buffered += data.length;
+      uploadOffset += data.length;
+
+      // Keep the lease while a slow client is still sending
+      if (Date.now() - renewedAt > (config.fileUpload.tusLockTimeout * 1000) / 2) {
+        await renewTusUpload(fileId, lockToken);
+        renewedAt = Date.now();
+      }
+
+      while (buffered >= partSize) {
+        await flushPart(partSize);
+      }
+    }
+
+    // Upload the final part once all bytes have arrived, otherwise keep the rest as the tail
+    if (uploadOffset === uploadLength && (buffered > 0 || partNumber === 1)) {
+      await flushPart(buffered);
+    } else if (buffered > 0 && uploadOffset !== committedOffset) {
+      await uploadFileToS3(
+        tusTailKey(upload.storage_key, uploadOffset),
+        Buffer.concat(chunks, buffered),
+        'application/octet-stream',
+        {},
+        tailEncryption
+      );
+    }
+
+    const result = await query(
+      `UPDATE tus_uploads
+       SET upload_offset = $1, next_part_number = $2, lock_token = NULL, locked_until = NULL
+       WHERE file_id = $3 AND lock_token = $4`,
+      [uploadOffset, partNumber, fileId, lockToken]
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error('Upload is locked by another request');
+    }
+  } catch (error) {
+    await releaseTusUpload(fileId, lockToken).catch(() => undefined);
+    throw error;
+  }
+
+  // The previous tail is superseded by the parts and tail just committed
+  if (uploadOffset !== committedOffset && tusTailSize(upload) > 0) {
+    await deleteObjects([tusTailKey(upload.storage_key, committedOffset)]).catch((error) => {
+      logger.warn(`Error deleting tail of tus upload ${fileId}:`, error);
+    });
+  }
+
+  if (uploadOffset === uploadLength) {
+    await finishTusUpload(fileId, userId, upload.storage_key, upload.upload_id);
+  }
+
+  return {
+    fileId,
+    uploadOffset,
+    uploadLength,
+    expiresAt: upload.expires_at,
+  };
+}
+
+/**
+ * Assemble a fully received tus upload and hand it over for processing
+ */
+async function finishTusUpload(
+  fileId: string,
+  userId: string,
+  key: string,
+  uploadId: string
+): Promise<void> {
+  // Assemble the parts in S3, unless an earlier attempt whose completion failed already did
+  try {
+    const parts = await listUploadedParts(key, uploadId);
+    await completeMultipartUpload(key, uploadId, parts);
+  } catch (error) {
+    if (!(await getObjectInfo(key))) {
+      throw error;
+    }
+  }
+
+  // Regular completion flow queues the file for processing and drops the upload state
+  await completeFileUpload(fileId, userId);
+}
+
+/**
+ * Terminate a tus upload
+ */
+export async function terminateTusUpload(fileId: string, userId: string): Promise<void> {
+  const { upload } = await acquireTusUpload(fileId, userId);
+
+  // Delete file record (cascade will delete the upload state)
+  await query('DELETE FROM files WHERE id = $1', [fileId]);
+
+  // Discard uploaded parts and the tail in S3
+  await abortMultipartUpload(upload.storage_key, upload.upload_id).catch((error) => {
+    logger.error(`Error aborting multipart upload for tus upload ${fileId}:`, error);
+  });
+
+  if (tusTailSize(upload) > 0) {
+    await deleteObjects([tusTailKey(upload.storage_key, parseInt(upload.upload_offset, 10))]).catch((error) => {
+      logger.warn(`Error deleting tail of tus upload ${fileId}:`, error);
+    });
+  }
+
+  // Log tus upload termination
+  await auditLog(
+    userId,
+    'FILE_TUS_UPLOAD_TERMINATED',
+    'file',
+    fileId,
+    { fileName: upload.original_name }
+  );
+}
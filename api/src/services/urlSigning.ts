@@ -0,0 +1,73 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import config from '../config';
+
+/**
+ * Compute the signature of an API URL
+ */
+function computeSignature(
+  method: string,
+  route: string,
+  key: string,
+  params: Record<string, string>
+): string {
+  const canonical = [
+    method,
+    route,
+    key,
+    ...Object.keys(params).sort().map((name) => `${name}=${params[name]}`),
+  ].join('\n');
+
+  return createHmac('sha256', config.storage.signingSecret).update(canonical).digest('hex');
+}
+
+/**
+ * Build an HMAC-signed URL for a route served by the API itself
+ */
+export function signUrl(
+  method: string,
+  route: string,
+  key: string,
+  params: Record<string, string>
+): string {
+  const signedParams = {
+    ...params,
+    expires: String(Math.floor(Date.now() / 1000) + config.fileUpload.presignedUrlExpiry),
+  };
+
+  const search = new URLSearchParams({
+    ...signedParams,
+    signature: computeSignature(method, route, key, signedParams),
+  });
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+  return `${config.storage.publicUrl}${route}/${encodedKey}?${search.toString()}`;
+}
+
+/**
+ * Verify a signed URL and return its signed parameters
+ */
+export function verifySignedUrl(
+  method: string,
+  route: string,
+  key: string,
+  searchParams: Record<string, string>
+): Record<string, string> {
+  const { signature, ...params } = searchParams;
+
+  if (!signature) {
+    throw new Error('Invalid signature');
+  }
+
+  const expected = Buffer.from(computeSignature(method, route, key, params), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid signature');
+  }
+
+  if (!params.expires || Number(params.expires) < Math.floor(Date.now() / 1000)) {
+    throw new Error('Signed URL expired');
+  }
+
+  return params;
+}
@@ -0,0 +1,77 @@
+// Unicode controls that reorder how a name is displayed, so that "invoice<U+202E>fdp.exe" shows as "invoiceexe.pdf"
+export const BIDI_CONTROL_PATTERN = /[\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/;
+
+// C0 and C1 control characters, including DEL
+const CONTROL_PATTERN = /[\u0000-\u001F\u007F-\u009F]/g;
+
+// Longest name most file systems accept, in UTF-8 bytes
+const MAX_FILENAME_BYTES = 255;
+
+// Name used when nothing is left after sanitization
+const FALLBACK_FILENAME = 'file';
+
+/**
+ * Clean up a file name supplied by a client
+ *
+ * The name is normalized to NFC, control and bidi characters are removed, path
+ * separators replaced, and the name is shortened to 255 UTF-8 bytes while
+ * keeping its extension.
+ */
+export function sanitizeFileName(fileName: string): string {
+  let name = fileName
+    .normalize('NFC')
+    .replace(CONTROL_PATTERN, '')
+    .replace(new RegExp(BIDI_CONTROL_PATTERN, 'g'), '')
+    .replace(/[/\\]/g, '_')
+    .trim()
+    .replace(/[. ]+$/, '');
+
+  if (!name || name === '.' || name === '..') {
+    return FALLBACK_FILENAME;
+  }
+
+  if (Buffer.byteLength(name) <= MAX_FILENAME_BYTES) {
+    return name;
+  }
+
+  // Drop whole code points from the end of the base name so that no character is split
+  const dot = name.lastIndexOf('.');
+  const extension = dot > 0 && name.length - dot <= 16 ? name.slice(dot) : '';
+  const base = Array.from(extension ? name.slice(0, dot) : name);
+
+  while (base.length > 0 && Buffer.byteLength(base.join('') + extension) > MAX_FILENAME_BYTES) {
+    base.pop();
+  }
+
+  name = base.join('').trim() + extension;
+  return name || FALLBACK_FILENAME;
+}
+
+/**
+ * Approximate a file name in printable ASCII, for clients that ignore filename*
+ */
+function asciiFallback(fileName: string): string {
+  const name = fileName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .replace(/[^\x20-\x7E]/g, '_')
+    .replace(/["\\%]/g, '_');
+
+  return name.trim() || FALLBACK_FILENAME;
+}
+
+/**
+ * Build a Content-Disposition header value for a file name (RFC 6266)
+ *
+ * The quoted filename parameter carries an ASCII fallback and filename* the
+ * full name, percent-encoded as UTF-8 (RFC 8187).
+ */
+export function buildContentDisposition(type: 'attachment' | 'inline', fileName: string): string {
+  const name = sanitizeFileName(fileName);
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `${type}; filename="${asciiFallback(name)}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,20 @@
+import { Readable } from 'stream';
+
+/**
+ * Read a stream into memory, or return null once it grows beyond a limit
+ */
+export async function readStreamWithLimit(stream: Readable, limit: number): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  for await (const chunk of stream) {
+    length += chunk.length;
+    if (length > limit) {
+      stream.destroy();
+      return null;
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Write a stream to a private temporary file for tools that need a path
+ *
+ * The file is removed once the callback settles.
+ */
+export async function withTempFile<T>(source: Readable, callback: (filePath: string) => Promise<T>): Promise<T> {
+  const filePath = path.join(os.tmpdir(), `webupload-${randomUUID()}`);
+
+  try {
+    await pipeline(source, createWriteStream(filePath, { mode: 0o600 }));
+    return await callback(filePath);
+  } finally {
+    await fs.rm(filePath, { force: true });
+  }
+}
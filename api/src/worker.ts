@@ -1,6 +1,12 @@
 import { Worker } from 'bullmq';
 import { fileProcessingQueue } from './queue/fileProcessing';
+import { scheduleMaintenanceJobs } from './queue/maintenance';
 import { processFile } from './services/fileProcessor';
+import { purgeFile } from './services/fileDeletion';
+import { promoteFileVersion } from './services/fileVersions';
+import { releaseExpiredReservations, reconcileUserUsage } from './services/quota';
+import { runReaper } from './services/reaper';
+import { enqueueScheduledRescans, rescanFile } from './services/rescan';
 import { logger } from './utils/logger';
 import config from './config';
 
@@ -11,7 +17,10 @@ const worker = new Worker(
     logger.info(`Processing file: ${job.data.fileId}`);
     
     try {
-      await processFile(job.data.fileId);
+      await processFile(job.data.fileId, { failOpen: job.data.failOpen });
+
+      // A clean new revision replaces the current one of its file
+      await promoteFileVersion(job.data.fileId);
       return { success: true, fileId: job.data.fileId };
     } catch (error) {
       logger.error(`Error processing file ${job.data.fileId}:`, error);
@@ -38,11 +47,92 @@ worker.on('failed', (job, error) => {
 
 logger.info('File processing worker started');
 
+// Create file deletion worker
+const deletionWorker = new Worker(
+  'fileDeletion',
+  async (job) => {
+    await purgeFile(job.data.fileId);
+    return { success: true, fileId: job.data.fileId };
+  },
+  {
+    connection: {
+      host: new URL(config.redis.url).hostname,
+      port: parseInt(new URL(config.redis.url).port || '6379', 10),
+    },
+    concurrency: 5, // Storage deletions are cheap
+  }
+);
+
+deletionWorker.on('failed', (job, error) => {
+  logger.error(`File deletion failed for ${job?.data.fileId}:`, error);
+});
+
+// Create re-scan worker, throttled so that new uploads are not starved of scanner time
+const rescanWorker = new Worker(
+  'fileRescan',
+  async (job) => {
+    const result = await rescanFile(job.data.fileId);
+    return { result, fileId: job.data.fileId };
+  },
+  {
+    connection: {
+      host: new URL(config.redis.url).hostname,
+      port: parseInt(new URL(config.redis.url).port || '6379', 10),
+    },
+    concurrency: config.rescan.concurrency,
+    limiter: {
+      max: config.rescan.rateLimit,
+      duration: 60000, // Per minute
+    },
+  }
+);
+
+rescanWorker.on('failed', (job, error) => {
+  logger.error(`File re-scan failed for ${job?.data.fileId}:`, error);
+});
+
+// Create maintenance worker for scheduled jobs
+const maintenanceWorker = new Worker(
+  'maintenance',
+  async (job) => {
+    switch (job.name) {
+      case 'release-expired-reservations':
+        return { released: await releaseExpiredReservations() };
+      case 'reconcile-user-usage':
+        return { corrected: await reconcileUserUsage() };
+      case 'reap-storage':
+        return runReaper();
+      case 'rescan-clean-files':
+        return { queued: await enqueueScheduledRescans() };
+      default:
+        throw new Error(`Unknown maintenance job: ${job.name}`);
+    }
+  },
+  {
+    connection: {
+      host: new URL(config.redis.url).hostname,
+      port: parseInt(new URL(config.redis.url).port || '6379', 10),
+    },
+    concurrency: 1, // Run one maintenance job at a time
+  }
+);
+
+maintenanceWorker.on('failed', (job, error) => {
+  logger.error(`Maintenance job ${job?.name} failed:`, error);
+});
+
+scheduleMaintenanceJobs()
+  .then(() => logger.info('Maintenance jobs scheduled'))
+  .catch((error) => logger.error('Error scheduling maintenance jobs:', error));
+
 // Handle graceful shutdown
 const gracefulShutdown = async () => {
   try {
     logger.info('Shutting down worker...');
     await worker.close();
+    await deletionWorker.close();
+    await rescanWorker.close();
+    await maintenanceWorker.close();
     logger.info('Worker shut down successfully');
     process.exit(0);
   } catch (error) {
@@ -55,4 +145,4 @@ const gracefulShutdown = async () => {
 process.on('SIGTERM', gracefulShutdown);
 process.on('SIGINT', gracefulShutdown);
 
-export { worker };
+export { worker, deletionWorker, rescanWorker, maintenanceWorker };
@@ -9,7 +9,7 @@ CREATE EXTENSION IF NOT EXISTS citext;
 DO $$
 BEGIN
     IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'file_status') THEN
-        CREATE TYPE file_status AS ENUM ('pending', 'scanning', 'clean', 'quarantined', 'rejected');
+        CREATE TYPE file_status AS ENUM ('pending', 'scanning', 'scan_pending', 'clean', 'quarantined', 'rejected', 'deleting');
     END IF;
 
     IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role') THEN
@@ -17,6 +17,10 @@ BEGIN
     END IF;
 END$$;
 
+-- Add file statuses missing from databases created by an earlier version
+ALTER TYPE file_status ADD VALUE IF NOT EXISTS 'scan_pending' BEFORE 'clean';
+ALTER TYPE file_status ADD VALUE IF NOT EXISTS 'deleting' AFTER 'rejected';
+
 -- Create users table
 CREATE TABLE IF NOT EXISTS users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -28,26 +32,136 @@ CREATE TABLE IF NOT EXISTS users (
     totp_enabled BOOLEAN NOT NULL DEFAULT false,
     storage_quota_bytes BIGINT NOT NULL DEFAULT 1073741824, -- 1GB default
     files_quota INTEGER NOT NULL DEFAULT 1000,
+    max_file_versions INTEGER NOT NULL DEFAULT 10 CHECK (max_file_versions >= 1),
+    image_cdr_mode TEXT CHECK (image_cdr_mode IN ('off', 'replace', 'rendition')), -- NULL uses the IMAGE_CDR_MODE default
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add users columns missing from databases created by an earlier version
+ALTER TABLE users ADD COLUMN IF NOT EXISTS max_file_versions INTEGER NOT NULL DEFAULT 10 CHECK (max_file_versions >= 1);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS image_cdr_mode TEXT CHECK (image_cdr_mode IN ('off', 'replace', 'rendition'));
+
+-- Create blobs table (content-addressed objects shared by deduplicated files)
+CREATE TABLE IF NOT EXISTS blobs (
+    sha256 TEXT PRIMARY KEY,
+    storage_key TEXT NOT NULL UNIQUE,
+    size_bytes BIGINT NOT NULL,
+    detected_mime TEXT,
+    status file_status NOT NULL,
+    reason TEXT,
+    key_id TEXT,
+    wrapped_key TEXT,
+    ref_count INTEGER NOT NULL DEFAULT 0 CHECK (ref_count >= 0),
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
 
 -- Create files table
+-- (a file row holds the current revision; older and in-flight revisions are
+-- rows pointing at it through parent_file_id)
 CREATE TABLE IF NOT EXISTS files (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    original_name TEXT NOT NULL,
+    parent_file_id UUID REFERENCES files(id) ON DELETE SET NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    original_name TEXT NOT NULL, -- As supplied by the client
+    sanitized_name TEXT NOT NULL, -- Cleaned up by sanitizeFileName, used for downloads
     storage_key TEXT NOT NULL,
     size_bytes BIGINT NOT NULL,
     sha256 TEXT,
+    blob_sha256 TEXT REFERENCES blobs(sha256),
+    declared_sha256 TEXT,
     detected_mime TEXT,
+    declared_mime TEXT,
+    key_id TEXT,
+    wrapped_key TEXT,
+    archive_manifest JSONB, -- Entries of an archive, listed by the archive scanner
+    active_content BOOLEAN NOT NULL DEFAULT FALSE, -- Runs or reaches out when opened, so never previewed inline
     status file_status NOT NULL DEFAULT 'pending',
     reason TEXT,
+    scan_attempts INTEGER NOT NULL DEFAULT 0, -- Scans deferred because a scanner was unavailable
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     scanned_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Add files columns missing from databases created by an earlier version
+ALTER TABLE files ADD COLUMN IF NOT EXISTS parent_file_id UUID REFERENCES files(id) ON DELETE SET NULL;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS sanitized_name TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS blob_sha256 TEXT REFERENCES blobs(sha256);
+ALTER TABLE files ADD COLUMN IF NOT EXISTS declared_sha256 TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS declared_mime TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS key_id TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS wrapped_key TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS archive_manifest JSONB;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS active_content BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS scan_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Files stored before names were sanitized keep their original name
+UPDATE files SET sanitized_name = original_name WHERE sanitized_name IS NULL;
+ALTER TABLE files ALTER COLUMN sanitized_name SET NOT NULL;
+
+-- Create user_usage table (per-user usage counters maintained by triggers)
+CREATE TABLE IF NOT EXISTS user_usage (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    used_bytes BIGINT NOT NULL DEFAULT 0,
+    file_count INTEGER NOT NULL DEFAULT 0,
+    reserved_bytes BIGINT NOT NULL DEFAULT 0,
+    reserved_files INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create quota_reservations table (quota held by uploads in progress)
+CREATE TABLE IF NOT EXISTS quota_reservations (
+    file_id UUID PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reserved_bytes BIGINT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create multipart_uploads table (resumable uploads in progress)
+CREATE TABLE IF NOT EXISTS multipart_uploads (
+    file_id UUID PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+    upload_id TEXT NOT NULL,
+    part_size BIGINT NOT NULL,
+    part_count INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create tus_uploads table (tus protocol uploads in progress)
+CREATE TABLE IF NOT EXISTS tus_uploads (
+    file_id UUID PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+    upload_id TEXT NOT NULL,
+    upload_length BIGINT NOT NULL,
+    upload_offset BIGINT NOT NULL DEFAULT 0,
+    part_size BIGINT NOT NULL,
+    next_part_number INTEGER NOT NULL DEFAULT 1, -- Bytes past the uploaded parts are stored under tus-tails/
+    lock_token UUID, -- Lease held by the PATCH request writing to the upload
+    locked_until TIMESTAMP WITH TIME ZONE,
+    key_id TEXT, -- Data key of the encrypted tail, if encryption is enabled
+    wrapped_key TEXT,
+    metadata JSONB,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create file_renditions table (derived objects stored for a file)
+CREATE TABLE IF NOT EXISTS file_renditions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    storage_key TEXT NOT NULL,
+    content_type TEXT,
+    size_bytes BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (file_id, kind)
+);
+
 -- Create file_shares table
 CREATE TABLE IF NOT EXISTS file_shares (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -60,6 +174,50 @@ CREATE TABLE IF NOT EXISTS file_shares (
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
 
+-- Create scan_results table (one row per scanner run; rows of one processing run share scan_id)
+CREATE TABLE IF NOT EXISTS scan_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    scan_id UUID NOT NULL,
+    position INTEGER NOT NULL,
+    scanner TEXT NOT NULL,
+    engine_version TEXT,
+    signature_version TEXT,
+    verdict TEXT NOT NULL CHECK (verdict IN ('clean', 'infected', 'suspicious', 'encrypted', 'error', 'unavailable')),
+    findings JSONB NOT NULL DEFAULT '[]',
+    duration_ms INTEGER NOT NULL,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create yara_rule_matches table (how often each YARA rule matched)
+CREATE TABLE IF NOT EXISTS yara_rule_matches (
+    rule_name TEXT PRIMARY KEY,
+    match_count BIGINT NOT NULL DEFAULT 0,
+    last_matched_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create hash_list_entries table (admin-managed SHA-256 deny and allow lists)
+CREATE TABLE IF NOT EXISTS hash_list_entries (
+    sha256 TEXT PRIMARY KEY,
+    list TEXT NOT NULL CHECK (list IN ('deny', 'allow')),
+    reason TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create notifications table (messages shown to a user)
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    message TEXT NOT NULL,
+    metadata JSONB,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Create audit_logs table
 CREATE TABLE IF NOT EXISTS audit_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -76,10 +234,21 @@ CREATE TABLE IF NOT EXISTS audit_logs (
 -- Create indexes
 CREATE INDEX IF NOT EXISTS idx_files_owner_id ON files(owner_id);
 CREATE INDEX IF NOT EXISTS idx_files_status ON files(status);
+CREATE INDEX IF NOT EXISTS idx_files_parent_file_id ON files(parent_file_id);
 CREATE INDEX IF NOT EXISTS idx_files_sha256 ON files(sha256);
+CREATE INDEX IF NOT EXISTS idx_files_blob_sha256 ON files(blob_sha256);
+CREATE INDEX IF NOT EXISTS idx_files_key_id ON files(key_id);
+CREATE INDEX IF NOT EXISTS idx_quota_reservations_user_id ON quota_reservations(user_id);
+CREATE INDEX IF NOT EXISTS idx_quota_reservations_expires_at ON quota_reservations(expires_at);
+CREATE INDEX IF NOT EXISTS idx_tus_uploads_expires_at ON tus_uploads(expires_at);
+CREATE INDEX IF NOT EXISTS idx_files_storage_key ON files(storage_key);
+CREATE INDEX IF NOT EXISTS idx_file_renditions_storage_key ON file_renditions(storage_key);
+CREATE INDEX IF NOT EXISTS idx_scan_results_file_id ON scan_results(file_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_file_shares_file_id ON file_shares(file_id);
 CREATE INDEX IF NOT EXISTS idx_file_shares_created_by ON file_shares(created_by);
 CREATE INDEX IF NOT EXISTS idx_file_shares_expires_at ON file_shares(expires_at);
+CREATE INDEX IF NOT EXISTS idx_hash_list_entries_list ON hash_list_entries(list);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_target_type ON audit_logs(target_type);
@@ -95,17 +264,118 @@ END;
 $$ language 'plpgsql';
 
 -- Create triggers for updated_at
-CREATE TRIGGER update_users_updated_at
+CREATE OR REPLACE TRIGGER update_users_updated_at
     BEFORE UPDATE ON users
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_files_updated_at
+CREATE OR REPLACE TRIGGER update_files_updated_at
     BEFORE UPDATE ON files
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE OR REPLACE TRIGGER update_blobs_updated_at
+    BEFORE UPDATE ON blobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_multipart_uploads_updated_at
+    BEFORE UPDATE ON multipart_uploads
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_tus_uploads_updated_at
+    BEFORE UPDATE ON tus_uploads
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create a function to adjust a user's usage counters
+CREATE OR REPLACE FUNCTION adjust_user_usage(
+    p_user_id UUID,
+    p_bytes BIGINT,
+    p_files INTEGER,
+    p_reserved_bytes BIGINT,
+    p_reserved_files INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE user_usage
+    SET used_bytes = used_bytes + p_bytes,
+        file_count = file_count + p_files,
+        reserved_bytes = reserved_bytes + p_reserved_bytes,
+        reserved_files = reserved_files + p_reserved_files,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+END;
+$$ language 'plpgsql';
+
+-- Create a function to create the usage row of a new user
+CREATE OR REPLACE FUNCTION create_user_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO user_usage (user_id) VALUES (NEW.id) ON CONFLICT DO NOTHING;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create a function to track stored files in user usage
+-- (pending uploads are tracked through their quota reservation instead,
+-- deleted files stop counting as soon as their deletion is requested)
+CREATE OR REPLACE FUNCTION track_file_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status NOT IN ('pending', 'rejected', 'deleting') THEN
+        PERFORM adjust_user_usage(OLD.owner_id, -OLD.size_bytes, -1, 0, 0);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status NOT IN ('pending', 'rejected', 'deleting') THEN
+        PERFORM adjust_user_usage(NEW.owner_id, NEW.size_bytes, 1, 0, 0);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Create a function to track quota reservations in user usage
+CREATE OR REPLACE FUNCTION track_reservation_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM adjust_user_usage(OLD.user_id, 0, 0, -OLD.reserved_bytes, -1);
+    ELSE
+        PERFORM adjust_user_usage(NEW.user_id, 0, 0, NEW.reserved_bytes, 1);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Create triggers for user usage
+CREATE OR REPLACE TRIGGER create_users_usage
+    AFTER INSERT ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION create_user_usage();
+
+CREATE OR REPLACE TRIGGER track_files_usage
+    AFTER INSERT OR DELETE OR UPDATE OF status, size_bytes, owner_id ON files
+    FOR EACH ROW
+    EXECUTE FUNCTION track_file_usage();
+
+CREATE OR REPLACE TRIGGER track_quota_reservations_usage
+    AFTER INSERT OR DELETE ON quota_reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION track_reservation_usage();
+
 -- Create admin user (for development only)
 INSERT INTO users (email, password_hash, role, email_verified)
 VALUES ('admin@example.com', '$argon2id$v=19$m=65536,t=3,p=4$c2FsdHNhbHRzYWx0c2FsdA$jc81YiZkv5hQs0fBO5112XnrLwJqgfRxQbazmMZVzuY', 'admin', true)
 ON CONFLICT (email) DO NOTHING;
+
+-- Create usage rows for users that existed before usage tracking,
+-- counting the files they already stored
+INSERT INTO user_usage (user_id, used_bytes, file_count)
+SELECT u.id, COALESCE(SUM(f.size_bytes), 0), COUNT(f.id)
+FROM users u
+LEFT JOIN files f ON f.owner_id = u.id AND f.status NOT IN ('pending', 'rejected', 'deleting')
+GROUP BY u.id
+ON CONFLICT DO NOTHING;
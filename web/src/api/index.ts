@@ -80,6 +80,10 @@ export const fileApi = {
     return api.get(`/files/${fileId}/download`);
   },
   
+  getFileScans: async (fileId: string) => {
+    return api.get(`/files/${fileId}/scans`);
+  },
+  
   createShare: async (fileId: string, expiresInMinutes: number = 15, oneTimeUse: boolean = false) => {
     return api.post(`/files/${fileId}/share`, {
       expiresInMinutes,
@@ -113,6 +117,10 @@ export const adminApi = {
       params: { page, pageSize },
     });
   },
+
+  updateUserSettings: async (userId: string, settings: { imageCdrMode: 'off' | 'replace' | 'rendition' | null }) => {
+    return api.patch(`/admin/users/${userId}/settings`, settings);
+  },
   
   getAuditLogs: async (
     filters: {
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import toast from 'react-hot-toast';
+import { adminApi } from '../api';
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ShieldCheckIcon,
+  TrashIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline';
+
+// Format bytes to human readable format
+const formatBytes = (bytes: number, decimals = 2) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+};
+
+const pageSize = 20;
+
+// File status filter options
+const statusOptions = [
+  { value: 'quarantined', label: 'Quarantined' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'scan_pending', label: 'Waiting for scan' },
+  { value: 'clean', label: 'Clean' },
+  { value: 'all', label: 'All Statuses' }
+];
+
+// Verdict badge colors
+const verdictColors: Record<string, string> = {
+  clean: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  infected: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  suspicious: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  encrypted: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+};
+
+// Results of each scanner in the latest scan of a file
+const ScanResults: React.FC<{ results: any[] }> = ({ results }) => {
+  if (results.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No scan results recorded.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {results.map((result: any) => (
+        <li key={result.id} className="text-sm">
+          <div className="flex items-center space-x-2">
+            <span className="font-medium text-gray-900 dark:text-white">{result.scanner}</span>
+            <span
+              className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+                verdictColors[result.verdict] || 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300'
+              }`}
+            >
+              {result.verdict}
+            </span>
+            {(result.engine_version || result.signature_version) && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {[result.engine_version, result.signature_version].filter(Boolean).join(' · ')}
+              </span>
+            )}
+          </div>
+          {result.findings?.length > 0 && (
+            <ul className="mt-1 ml-4 list-disc text-gray-700 dark:text-gray-300">
+              {result.findings.map((finding: any, index: number) => (
+                <li key={index}>
+                  {finding.name}
+                  {finding.detail && <span className="text-gray-500 dark:text-gray-400"> — {finding.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.error && (
+            <p className="mt-1 ml-4 text-red-600 dark:text-red-400">{result.error}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const AdminFilesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState('quarantined');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Fetch files with the results of their latest scan
+  const { data, isLoading, refetch } = useQuery(
+    ['adminFiles', page, pageSize, status],
+    () => adminApi.listFiles(status !== 'all' ? status : undefined, page, pageSize).then(res => res.data),
+    { keepPreviousData: true }
+  );
+
+  // Allow or delete a file
+  const fileAction = useMutation(
+    ({ fileId, action }: { fileId: string; action: 'allow' | 'delete' }) => adminApi.fileAction(fileId, action),
+    {
+      onSuccess: (_, { action }) => {
+        toast.success(action === 'allow' ? 'File marked as clean' : 'File deleted');
+        queryClient.invalidateQueries('adminFiles');
+      }
+    }
+  );
+
+  const totalPages = data ? Math.ceil(data.total / pageSize) : 0;
+
+  return (
+    <div className="space-y-6">
+      <header className="md:flex md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Files</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Review flagged files and what the scanners found
+          </p>
+        </div>
+        <div className="flex mt-4 md:mt-0 space-x-3">
+          <select
+            id="status"
+            name="status"
+            className="block pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={status}
+            onChange={e => {
+              setStatus(e.target.value);
+              setPage(1);
+            }}
+          >
+            {statusOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => refetch()}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <ArrowPathIcon className="h-5 w-5 mr-2" />
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg">
+        {isLoading ? (
+          <div className="py-20 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">Loading files...</p>
+          </div>
+        ) : data?.files?.length === 0 ? (
+          <div className="py-20 text-center">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white">No files found</h3>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Owner
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Size
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {data?.files.map((file: any) => (
+                  <React.Fragment key={file.id}>
+                    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => setExpanded(expanded === file.id ? null : file.id)}
+                          className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300"
+                        >
+                          {expanded === file.id ? (
+                            <ChevronDownIcon className="h-4 w-4 mr-2" />
+                          ) : (
+                            <ChevronRightIcon className="h-4 w-4 mr-2" />
+                          )}
+                          {file.original_name}
+                          {file.parent_file_id && (
+                            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">v{file.version}</span>
+                          )}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {file.owner_email}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {formatBytes(Number(file.size_bytes))}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                        {file.reason || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        {file.status === 'quarantined' && (
+                          <button
+                            type="button"
+                            onClick={() => fileAction.mutate({ fileId: file.id, action: 'allow' })}
+                            disabled={fileAction.isLoading}
+                            className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            <ShieldCheckIcon className="h-4 w-4 mr-1" />
+                            Allow
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => fileAction.mutate({ fileId: file.id, action: 'delete' })}
+                          disabled={fileAction.isLoading}
+                          className="inline-flex items-center px-3 py-1 border border-transparent rounded-md text-white bg-red-600 hover:bg-red-700"
+                        >
+                          <TrashIcon className="h-4 w-4 mr-1" />
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                    {expanded === file.id && (
+                      <tr className="bg-gray-50 dark:bg-gray-900/40">
+                        <td colSpan={5} className="px-10 py-4">
+                          <ScanResults results={file.latest_scan || []} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="bg-white dark:bg-gray-800 px-4 py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 sm:px-6">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Page <span className="font-medium">{page}</span> of <span className="font-medium">{totalPages}</span>
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setPage(p => Math.max(p - 1, 1))}
+                disabled={page === 1}
+                className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(p => Math.min(p + 1, totalPages))}
+                disabled={page === totalPages}
+                className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminFilesPage;